@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('USER', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "role" "UserRole" NOT NULL DEFAULT 'USER';
+
+-- CreateTable
+CREATE TABLE "NotificationAuditLog" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT,
+    "target" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "payloadHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NotificationAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NotificationAuditLog_actorId_idx" ON "NotificationAuditLog"("actorId");
+
+-- CreateIndex
+CREATE INDEX "NotificationAuditLog_createdAt_idx" ON "NotificationAuditLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "NotificationAuditLog" ADD CONSTRAINT "NotificationAuditLog_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "ReelStatus" AS ENUM ('CREATED', 'PROCESSING', 'READY', 'ERRORED', 'DELETED');
+
+-- CreateTable
+CREATE TABLE "Reel" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "uploadId" TEXT NOT NULL,
+    "assetId" TEXT,
+    "playbackIds" TEXT[],
+    "status" "ReelStatus" NOT NULL DEFAULT 'CREATED',
+    "duration" DOUBLE PRECISION,
+    "aspectRatio" TEXT,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Reel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Reel_uploadId_key" ON "Reel"("uploadId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Reel_assetId_key" ON "Reel"("assetId");
+
+-- CreateIndex
+CREATE INDEX "Reel_userId_createdAt_idx" ON "Reel"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Reel_status_idx" ON "Reel"("status");
+
+-- AddForeignKey
+ALTER TABLE "Reel" ADD CONSTRAINT "Reel_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "ReelVisibility" AS ENUM ('PUBLIC', 'FOLLOWERS', 'SUBSCRIBERS', 'PRIVATE');
+
+-- AlterTable
+ALTER TABLE "Reel" ADD COLUMN     "caption" TEXT,
+ADD COLUMN     "coverTime" DOUBLE PRECISION,
+ADD COLUMN     "hashtags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "publishedAt" TIMESTAMP(3),
+ADD COLUMN     "visibility" "ReelVisibility" NOT NULL DEFAULT 'PUBLIC';
+
+-- CreateIndex
+CREATE INDEX "Reel_publishedAt_idx" ON "Reel"("publishedAt");
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "CreatorPlan" AS ENUM ('FREE', 'PRO');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "plan" "CreatorPlan" NOT NULL DEFAULT 'FREE';
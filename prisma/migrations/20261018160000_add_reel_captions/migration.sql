@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "ReelCaptionStatus" AS ENUM ('READY', 'ERRORED');
+
+-- AlterTable
+ALTER TABLE "Reel" ADD COLUMN     "captionLanguage" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReelCaption" (
+    "id" TEXT NOT NULL,
+    "reelId" TEXT NOT NULL,
+    "trackId" TEXT NOT NULL,
+    "languageCode" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" "ReelCaptionStatus" NOT NULL,
+    "vtt" TEXT,
+    "transcript" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReelCaption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReelCaption_trackId_key" ON "ReelCaption"("trackId");
+
+-- CreateIndex
+CREATE INDEX "ReelCaption_reelId_idx" ON "ReelCaption"("reelId");
+
+-- AddForeignKey
+ALTER TABLE "ReelCaption" ADD CONSTRAINT "ReelCaption_reelId_fkey" FOREIGN KEY ("reelId") REFERENCES "Reel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
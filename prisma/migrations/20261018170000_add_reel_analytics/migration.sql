@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "ReelDailyStats" (
+    "reelId" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "views" INTEGER NOT NULL DEFAULT 0,
+    "watchSeconds" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "completions" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ReelDailyStats_pkey" PRIMARY KEY ("reelId","day")
+);
+
+-- CreateTable
+CREATE TABLE "ReelRetention" (
+    "reelId" TEXT NOT NULL,
+    "bucket" INTEGER NOT NULL,
+    "viewers" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ReelRetention_pkey" PRIMARY KEY ("reelId","bucket")
+);
+
+-- CreateTable
+CREATE TABLE "ReelViewer" (
+    "reelId" TEXT NOT NULL,
+    "viewerKey" TEXT NOT NULL,
+    "firstViewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReelViewer_pkey" PRIMARY KEY ("reelId","viewerKey")
+);
+
+-- AddForeignKey
+ALTER TABLE "ReelDailyStats" ADD CONSTRAINT "ReelDailyStats_reelId_fkey" FOREIGN KEY ("reelId") REFERENCES "Reel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReelRetention" ADD CONSTRAINT "ReelRetention_reelId_fkey" FOREIGN KEY ("reelId") REFERENCES "Reel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReelViewer" ADD CONSTRAINT "ReelViewer_reelId_fkey" FOREIGN KEY ("reelId") REFERENCES "Reel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
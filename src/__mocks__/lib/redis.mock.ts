@@ -5,7 +5,12 @@ const redisBase: Partial<RedisClient> = {
   get: vi.fn().mockResolvedValue(null),
   set: vi.fn().mockResolvedValue("OK"),
   del: vi.fn().mockResolvedValue(1),
+  expire: vi.fn().mockResolvedValue(1),
+  incr: vi.fn().mockResolvedValue(1),
+  decr: vi.fn().mockResolvedValue(0),
+  eval: vi.fn().mockResolvedValue(null),
   publish: vi.fn().mockResolvedValue(1),
+  subscribe: vi.fn().mockResolvedValue(vi.fn().mockResolvedValue(undefined)),
   scan: vi.fn().mockResolvedValue({
     cursor: "0",
     keys: ["mocked-key1", "mocked-key2"],
@@ -15,6 +20,9 @@ const redisBase: Partial<RedisClient> = {
   hdel: vi.fn().mockResolvedValue(1),
   hgetall: vi.fn().mockResolvedValue({}),
   hexists: vi.fn().mockResolvedValue(0),
+  rpush: vi.fn().mockResolvedValue(1),
+  ltrim: vi.fn().mockResolvedValue("OK"),
+  lrange: vi.fn().mockResolvedValue([]),
 };
 
 // Create individual mock implementations for each environment
@@ -0,0 +1,19 @@
+import { redirect, RedirectType } from "next/navigation";
+import { paths } from "@/config/routes";
+import { getSession, isAdmin } from "@/features/auth";
+
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const session = await getSession();
+
+  // The protected layout guarantees a session, but the
+  // dashboard can broadcast to everyone so it is admin only
+  if (!isAdmin(session)) {
+    redirect(paths.homePage, RedirectType.replace);
+  }
+
+  return children;
+}
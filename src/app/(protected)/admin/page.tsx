@@ -1,10 +1,12 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import type { SSEEventPayload } from "@/lib/sse/events";
 
 type ClientInfo = {
   id: string;
   name?: string;
+  protocols: Array<"sse" | "websocket">;
   connectionCount: number;
   connectedAt: number;
   lastSeen: number;
@@ -69,7 +71,7 @@ export default function AdminDashboard() {
             message: notification.message,
             timestamp: Date.now(),
             from: "admin",
-          },
+          } satisfies SSEEventPayload<"notification">,
           broadcast: notification.broadcast,
         }),
       });
@@ -462,6 +464,9 @@ export default function AdminDashboard() {
                               <div className="mr-2 h-2 w-2 animate-pulse rounded-full bg-white"></div>
                               {client.connectionCount} active
                             </span>
+                            <span className="ml-2 text-xs text-blue-200 uppercase">
+                              {client.protocols.join(" + ")}
+                            </span>
                           </td>
                           <td className="px-6 py-4 text-sm whitespace-nowrap text-blue-200">
                             {formatTime(client.connectedAt)}
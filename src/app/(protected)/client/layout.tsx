@@ -0,0 +1,9 @@
+import { SSEProvider } from "@/features/realtime";
+
+export default function ClientLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <SSEProvider>{children}</SSEProvider>;
+}
@@ -1,6 +1,9 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useState } from "react";
+import { useSession } from "@/features/auth";
+import { useSSE, useSSEConnection } from "@/features/realtime";
+import { api } from "@/trpc/react";
 
 type Notification = {
   id: string;
@@ -11,22 +14,40 @@ type Notification = {
 };
 
 export default function ClientPage() {
-  const [name, setName] = useState("");
-  const [clientId, setClientId] = useState<string | null>(null);
-  const [connectionStatus, setConnectionStatus] = useState<
-    "disconnected" | "connecting" | "connected" | "error"
-  >("disconnected");
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const session = useSession();
+  const [name, setName] = useState(session.user.name ?? "");
+  const {
+    status: connectionStatus,
+    clientId,
+    connect,
+    disconnect: closeConnection,
+  } = useSSEConnection();
+  const [liveNotifications, setLiveNotifications] = useState<Notification[]>(
+    [],
+  );
   const [isJoining, setIsJoining] = useState(false);
-  const esRef = useRef<EventSource | null>(null);
-
-  const generateClientId = async (): Promise<string> => {
-    const response = await fetch("/api/sse/generate-id", {
-      method: "POST",
-    });
-    const data = (await response.json()) as { clientId: string };
-    return data.clientId;
-  };
+
+  // Unread inbox, including notifications sent while offline
+  const utils = api.useUtils();
+  const inbox = api.notifications.list.useQuery({ unreadOnly: true });
+  const markAllRead = api.notifications.markAllRead.useMutation({
+    onSuccess: () => utils.notifications.list.invalidate(),
+  });
+
+  // Stored notifications also arrive live, with their inbox id
+  const liveIds = new Set(liveNotifications.map((n) => n.id));
+  const notifications: Notification[] = [
+    ...liveNotifications,
+    ...(inbox.data?.notifications ?? [])
+      .filter((n) => !liveIds.has(n.id))
+      .map((n) => ({
+        id: n.id,
+        event: "notification",
+        message: n.message,
+        timestamp: n.createdAt.getTime(),
+        from: n.from ?? "system",
+      })),
+  ].slice(0, 50);
 
   const joinConnection = async () => {
     if (!name.trim()) {
@@ -36,128 +57,61 @@ export default function ClientPage() {
 
     setIsJoining(true);
     try {
-      // Generate unique client ID
-      const newClientId = await generateClientId();
-      setClientId(newClientId);
-
-      // Connect to SSE
-      connectToSSE(newClientId, name.trim());
+      await connect({ name: name.trim() });
     } catch (error) {
       console.error("Failed to join:", error);
-      alert("Failed to join. Please try again.");
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Failed to join. Please try again.",
+      );
+    } finally {
       setIsJoining(false);
     }
   };
 
-  const connectToSSE = (id: string, clientName: string) => {
-    setConnectionStatus("connecting");
-
-    const url = `/api/sse/subscribe/${encodeURIComponent(id)}?name=${encodeURIComponent(clientName)}`;
-    const es = new EventSource(url);
-    esRef.current = es;
-
-    es.onopen = () => {
-      setConnectionStatus("connected");
-      setIsJoining(false);
-      console.log("Connected to SSE");
+  // Handle notifications
+  useSSE("notification", (data) => {
+    const notification: Notification = {
+      id: data.id ?? `${Date.now()}_${Math.random()}`,
+      event: "notification",
+      message: data.message,
+      timestamp: data.timestamp ?? Date.now(),
+      from: data.from ?? "system",
     };
 
-    es.onerror = (error) => {
-      console.error("SSE error:", error);
-      setConnectionStatus("error");
-      setIsJoining(false);
-    };
+    setLiveNotifications((prev) => [notification, ...prev.slice(0, 49)]); // Keep last 50
 
-    // Handle connection confirmation
-    es.addEventListener("__connected", (e: MessageEvent) => {
-      const raw = typeof e.data === "string" ? e.data : String(e.data);
-      const data = JSON.parse(raw) as {
-        message?: string;
-        ts?: number;
-        clientId?: string;
-        name?: string;
-      };
-      console.log("Connection confirmed:", data);
-    });
-
-    // Handle heartbeat
-    es.addEventListener("__heartbeat", (_e: MessageEvent) => {
-      // Just log heartbeat, no need to show to user
-      console.log("Heartbeat received");
-    });
-
-    // Handle notifications
-    es.addEventListener("notification", (e: MessageEvent) => {
-      try {
-        const raw = typeof e.data === "string" ? e.data : String(e.data);
-        const data = JSON.parse(raw) as {
-          message?: string;
-          timestamp?: number;
-          from?: string;
-        };
-        const notification: Notification = {
-          id: `${Date.now()}_${Math.random()}`,
-          event: "notification",
-          message: data.message ?? "No message",
-          timestamp: data.timestamp ?? Date.now(),
-          from: data.from ?? "system",
-        };
-
-        setNotifications((prev) => [notification, ...prev.slice(0, 49)]); // Keep last 50
-
-        // Show browser notification if permission granted
-        if (Notification.permission === "granted") {
-          new Notification("New Message", {
-            body: notification.message,
-            icon: "/favicon.ico",
-          });
-        }
-      } catch {
-        console.error("Error parsing notification");
-      }
-    });
-
-    // Handle other custom events
-    es.onmessage = (e: MessageEvent) => {
-      try {
-        const raw = typeof e.data === "string" ? e.data : String(e.data);
-        const data = JSON.parse(raw) as { message?: string; from?: string };
-        const notification: Notification = {
-          id: `${Date.now()}_${Math.random()}`,
-          event: "message",
-          message: data.message ?? String(e.data),
-          timestamp: Date.now(),
-          from: data.from ?? "system",
-        };
-
-        setNotifications((prev) => [notification, ...prev.slice(0, 49)]);
-      } catch {
-        // If not JSON, treat as plain text
-        const notification: Notification = {
-          id: `${Date.now()}_${Math.random()}`,
-          event: "message",
-          message: String(e.data),
-          timestamp: Date.now(),
-          from: "system",
-        };
-
-        setNotifications((prev) => [notification, ...prev.slice(0, 49)]);
-      }
+    // Show browser notification if permission granted
+    if (Notification.permission === "granted") {
+      new Notification("New Message", {
+        body: notification.message,
+        icon: "/favicon.ico",
+      });
+    }
+  });
+
+  // Handle system alerts
+  useSSE("system-alert", (data) => {
+    const notification: Notification = {
+      id: `${Date.now()}_${Math.random()}`,
+      event: "system-alert",
+      message: data.message,
+      timestamp: data.timestamp ?? Date.now(),
+      from: "system",
     };
-  };
+
+    setLiveNotifications((prev) => [notification, ...prev.slice(0, 49)]);
+  });
 
   const disconnect = () => {
-    if (esRef.current) {
-      esRef.current.close();
-      esRef.current = null;
-    }
-    setConnectionStatus("disconnected");
-    setClientId(null);
-    setNotifications([]);
+    closeConnection();
+    setLiveNotifications([]);
   };
 
   const clearNotifications = () => {
-    setNotifications([]);
+    setLiveNotifications([]);
+    markAllRead.mutate();
   };
 
   const requestNotificationPermission = async () => {
@@ -169,13 +123,6 @@ export default function ClientPage() {
   useEffect(() => {
     // Request notification permission on load
     void requestNotificationPermission();
-
-    // Cleanup on unmount
-    return () => {
-      if (esRef.current) {
-        esRef.current.close();
-      }
-    };
   }, []);
 
   const formatTime = (timestamp: number) => {
@@ -0,0 +1,7 @@
+import { ReelAnalytics } from "@/features/reels";
+
+const ReelsAnalyticsPage = () => {
+  return <ReelAnalytics />;
+};
+
+export default ReelsAnalyticsPage;
@@ -0,0 +1,108 @@
+import { cache } from "react";
+import { type Metadata } from "next";
+import { notFound } from "next/navigation";
+import { buildPath, getSession } from "@/features/auth";
+import { paths } from "@/config/routes";
+import {
+  CreatorReels,
+  DeleteReelButton,
+  reelPlaybackService,
+  ReelPlayer,
+} from "@/features/reels";
+
+type ReelPageProps = { params: Promise<{ reelId: string }> };
+
+// Shared by `generateMetadata` and the page within a request
+const getReel = cache(async (reelId: string) => {
+  const session = await getSession();
+  const reel = await reelPlaybackService.getViewableReel(
+    reelId,
+    session?.user.id,
+  );
+  return { reel, viewerId: session?.user.id };
+});
+
+export async function generateMetadata({
+  params,
+}: ReelPageProps): Promise<Metadata> {
+  const { reelId } = await params;
+  const { reel } = await getReel(reelId);
+  if (!reel) return { title: "Reel not found" };
+
+  const title = reel.user.name ? `Reel by ${reel.user.name}` : "Reel";
+  const description = reel.caption ?? undefined;
+  const image = await reelPlaybackService.getShareImageUrl(reel);
+
+  return {
+    title,
+    description,
+    openGraph: {
+      type: "video.other",
+      title,
+      description,
+      url: buildPath(paths.reelPage, { reelId }),
+      ...(image ? { images: [{ url: image, width: 1200 }] } : {}),
+    },
+    twitter: {
+      card: image ? "summary_large_image" : "summary",
+      title,
+      description,
+    },
+  };
+}
+
+const ReelPage = async ({ params }: ReelPageProps) => {
+  const { reelId } = await params;
+  const { reel, viewerId } = await getReel(reelId);
+  if (!reel) notFound();
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center gap-6 bg-gradient-to-b from-[#2e026d] to-[#15162c] px-4 py-16 text-white">
+      <ReelPlayer
+        reelId={reel.id}
+        title={reel.caption ?? undefined}
+        viewerId={viewerId}
+      />
+
+      <div className="w-full max-w-sm">
+        {reel.user.name && <p className="font-semibold">{reel.user.name}</p>}
+        {reel.caption && <p className="text-lg">{reel.caption}</p>}
+        {reel.hashtags.length > 0 && (
+          <p className="text-purple-300">
+            {reel.hashtags.map((tag) => `#${tag}`).join(" ")}
+          </p>
+        )}
+        {reel.captions.some((caption) => caption.transcript) && (
+          <details className="mt-4 rounded-xl bg-white/10 p-4">
+            <summary className="cursor-pointer font-semibold">
+              Transcript
+            </summary>
+            {reel.captions.map(
+              (caption) =>
+                caption.transcript && (
+                  <section key={caption.languageCode} className="mt-3">
+                    <h2 className="text-sm text-white/60">{caption.name}</h2>
+                    <p className="whitespace-pre-line">{caption.transcript}</p>
+                  </section>
+                ),
+            )}
+          </details>
+        )}
+        {viewerId === reel.userId && (
+          <div className="mt-4">
+            <DeleteReelButton reelId={reel.id} />
+          </div>
+        )}
+      </div>
+
+      <section className="w-full max-w-sm">
+        <h2 className="mb-2 font-semibold">
+          More from {reel.user.name ?? "this creator"}
+        </h2>
+        <CreatorReels creatorId={reel.userId} exclude={reel.id} />
+      </section>
+    </main>
+  );
+};
+
+export default ReelPage;
@@ -0,0 +1,45 @@
+import Link from "next/link";
+import { paths } from "@/config/routes";
+import { getSession } from "@/features/auth";
+import { ReelFeed, type ReelFeedMode } from "@/features/reels";
+
+const ReelsFeedPage = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ mode?: string }>;
+}) => {
+  const [session, { mode: modeParam }] = await Promise.all([
+    getSession(),
+    searchParams,
+  ]);
+  const viewerId = session?.user.id;
+  // Following needs a signed in viewer
+  const mode: ReelFeedMode =
+    modeParam === "following" && viewerId ? "following" : "forYou";
+
+  const tabClassName = (tab: ReelFeedMode) =>
+    tab === mode ? "font-bold text-white" : "text-white/60";
+
+  return (
+    <div className="relative">
+      <nav className="absolute top-4 right-0 left-0 z-10 flex justify-center gap-6 text-lg drop-shadow">
+        <Link href={paths.reelsFeedPage} className={tabClassName("forYou")}>
+          For you
+        </Link>
+        {viewerId && (
+          <Link
+            href={`${paths.reelsFeedPage}?mode=following`}
+            className={tabClassName("following")}
+          >
+            Following
+          </Link>
+        )}
+      </nav>
+
+      {/* Keyed so switching tabs starts the feed from the top */}
+      <ReelFeed key={mode} mode={mode} viewerId={viewerId} />
+    </div>
+  );
+};
+
+export default ReelsFeedPage;
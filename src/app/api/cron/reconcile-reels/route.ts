@@ -0,0 +1,58 @@
+// app/api/cron/reconcile-reels/route.ts
+import { timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { env } from "@/env";
+import { getSession, isAdmin } from "@/features/auth";
+import { reelReconciliationService } from "@/features/reels";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Check the `Authorization: Bearer <CRON_SECRET>` header sent by the scheduler
+ */
+function hasCronSecret(request: Request) {
+  if (!env.CRON_SECRET) return false;
+
+  const header = request.headers.get("authorization") ?? "";
+  const expected = Buffer.from(`Bearer ${env.CRON_SECRET}`);
+  const actual = Buffer.from(header);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Reconciles reels with Mux assets and reports the differences.
+ * Pass `fix=true` to link assets that missed their webhooks, delete orphan
+ * assets and mark reels without an asset deleted.
+ * Called by the scheduler with `CRON_SECRET`, or by an admin.
+ */
+export async function GET(request: Request) {
+  try {
+    if (!hasCronSecret(request)) {
+      const session = await getSession();
+      if (!session?.user || !isAdmin(session)) {
+        return NextResponse.json(
+          { ok: false, error: "Admin access required" },
+          { status: session?.user ? 403 : 401 },
+        );
+      }
+    }
+
+    const { searchParams } = new URL(request.url);
+    const report = await reelReconciliationService.reconcile({
+      fix: searchParams.get("fix") === "true",
+    });
+    return NextResponse.json({ ok: true, ...report });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: `Failed to reconcile reels, ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      },
+      { status: 500 },
+    );
+  }
+}
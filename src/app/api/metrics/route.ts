@@ -0,0 +1,55 @@
+// app/api/metrics/route.ts
+import { timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { env } from "@/env";
+import { createGauge, renderMetrics } from "@/lib/metrics";
+// Registers the SSE metrics
+import "../../../lib/sse";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Process health, read at scrape time
+createGauge("process_uptime_seconds", "Seconds since the process started", () =>
+  Math.round(process.uptime()),
+);
+createGauge(
+  "process_resident_memory_bytes",
+  "Resident memory size in bytes",
+  () => process.memoryUsage().rss,
+);
+createGauge(
+  "nodejs_heap_used_bytes",
+  "V8 heap used in bytes",
+  () => process.memoryUsage().heapUsed,
+);
+
+/**
+ * Check the `Authorization: Bearer <METRICS_TOKEN>` header when a token is configured
+ */
+function isAuthorized(request: Request) {
+  if (!env.METRICS_TOKEN) return true;
+
+  const header = request.headers.get("authorization") ?? "";
+  const expected = Buffer.from(`Bearer ${env.METRICS_TOKEN}`);
+  const actual = Buffer.from(header);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: "Invalid metrics token" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+    );
+  }
+
+  return new Response(renderMetrics(), {
+    status: 200,
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
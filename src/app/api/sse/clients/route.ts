@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { getSession, isAdmin } from "@/features/auth";
 import { getClientDetails } from "../../../../lib/sse";
 
 export const runtime = "nodejs";
@@ -7,6 +8,14 @@ export const revalidate = 0;
 
 export async function GET() {
   try {
+    const session = await getSession();
+    if (!session?.user || !isAdmin(session)) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: session?.user ? 403 : 401 },
+      );
+    }
+
     const clients = getClientDetails();
     return NextResponse.json({ clients });
   } catch (error: unknown) {
@@ -1,11 +1,20 @@
 import { NextResponse } from "next/server";
+import { getSession } from "@/features/auth";
 import { generateClientId } from "../../../../lib/sse";
 
 export const runtime = "nodejs";
 
 export async function POST() {
   try {
-    const clientId = generateClientId();
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "You must be signed in to subscribe" },
+        { status: 401 },
+      );
+    }
+
+    const clientId = generateClientId(session.user.id);
     return NextResponse.json({ clientId });
   } catch (error: unknown) {
     return NextResponse.json(
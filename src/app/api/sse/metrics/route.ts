@@ -1,10 +1,19 @@
 import { NextResponse } from "next/server";
+import { getSession, isAdmin } from "@/features/auth";
 import { getConnectionMetrics } from "../../../../lib/sse";
 
 export const runtime = "nodejs";
 
 export async function GET() {
   try {
+    const session = await getSession();
+    if (!session?.user || !isAdmin(session)) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: session?.user ? 403 : 401 },
+      );
+    }
+
     const metrics = getConnectionMetrics();
     return NextResponse.json(metrics);
   } catch (error: unknown) {
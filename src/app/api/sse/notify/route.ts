@@ -1,26 +1,73 @@
 // app/api/sse/notify/route.ts
 import { NextResponse } from "next/server";
-import { sendEvent, broadcast, totalConnections } from "../../../../lib/sse";
+import { getSession, isAdmin } from "@/features/auth";
+import { auditService } from "@/features/audit";
+import { notificationService } from "@/features/notifications";
+import {
+  isSSEEventName,
+  parseSSEPayload,
+  sendEvent,
+  sendToUser,
+  publishToTopic,
+  broadcast,
+  totalConnections,
+  type SSEEventName,
+  type SSEEventPayload,
+} from "../../../../lib/sse";
 
 export const runtime = "nodejs";
 
 export async function POST(request: Request) {
   try {
+    const session = await getSession();
+    if (!session?.user || !isAdmin(session)) {
+      return NextResponse.json(
+        { ok: false, error: "Admin access required" },
+        { status: session?.user ? 403 : 401 },
+      );
+    }
+
     const body = (await request.json()) as {
       clientId?: string;
+      userId?: string;
+      topic?: string;
       event?: string;
       payload?: unknown;
       broadcast?: boolean;
     };
     const {
       clientId,
+      userId,
+      topic,
       event = "notification",
       payload = {},
       broadcast: doBroadcast = false,
     } = body;
+    const actorId = session.user.id;
+
+    if (!isSSEEventName(event)) {
+      return NextResponse.json(
+        { ok: false, error: `Unknown event: ${event}` },
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseSSEPayload(event, payload);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid payload", issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
 
     if (doBroadcast) {
-      broadcast(event, payload);
+      await auditService.recordNotification({
+        actorId,
+        target: { type: "broadcast" },
+        event,
+        payload,
+      });
+      broadcast(event, parsed.data);
       return NextResponse.json({
         ok: true,
         broadcast: true,
@@ -28,14 +75,70 @@ export async function POST(request: Request) {
       });
     }
 
+    if (userId) {
+      await auditService.recordNotification({
+        actorId,
+        target: { type: "user", userId },
+        event,
+        payload,
+      });
+
+      // Notifications are stored in the inbox so offline users see them later
+      if (event === "notification") {
+        const notification = await notificationService.notify(
+          userId,
+          parsed.data as SSEEventPayload<"notification">,
+        );
+        return NextResponse.json({
+          ok: true,
+          notificationId: notification.id,
+          userId,
+          connections: totalConnections(),
+        });
+      }
+
+      const sent = sendToUser<SSEEventName>(userId, event, parsed.data);
+      return NextResponse.json({
+        ok: true,
+        sent,
+        userId,
+        connections: totalConnections(),
+      });
+    }
+
+    if (topic) {
+      await auditService.recordNotification({
+        actorId,
+        target: { type: "topic", topic },
+        event,
+        payload,
+      });
+      const sent = publishToTopic(topic, event, parsed.data);
+      return NextResponse.json({
+        ok: true,
+        sent,
+        topic,
+        connections: totalConnections(),
+      });
+    }
+
     if (!clientId) {
       return NextResponse.json(
-        { ok: false, error: "clientId required unless broadcast=true" },
+        {
+          ok: false,
+          error: "clientId, userId or topic required unless broadcast=true",
+        },
         { status: 400 },
       );
     }
 
-    const sent = sendEvent(clientId, event, payload);
+    await auditService.recordNotification({
+      actorId,
+      target: { type: "client", clientId },
+      event,
+      payload,
+    });
+    const sent = sendEvent(clientId, event, parsed.data);
     return NextResponse.json({
       ok: true,
       sent,
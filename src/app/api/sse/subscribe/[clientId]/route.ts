@@ -1,18 +1,100 @@
 // app/api/sse/subscribe/[clientId]/route.ts
-import { createSSEStream } from "../../../../../lib/sse";
+import { NextResponse } from "next/server";
+import { CONNECTION_LIMIT_RETRY_AFTER_SECONDS } from "@/config/sse";
+import { getSession } from "@/features/auth";
+import { getClientIp } from "@/utils/request-utils";
+import {
+  checkConnectionLimit,
+  createSSEStream,
+  getForbiddenTopics,
+  isClientOfUser,
+  isShuttingDown,
+} from "../../../../../lib/sse";
 
 export const runtime = "nodejs";
 
 export async function GET(
   request: Request,
-  { params }: { params: { clientId: string } },
+  { params }: { params: Promise<{ clientId: string }> },
 ) {
-  const { clientId } = params;
+  const { clientId } = await params;
   const { searchParams } = new URL(request.url);
   const name = searchParams.get("name") ?? undefined;
+  // Topics may be repeated (?topic=a&topic=b) or comma separated (?topics=a,b)
+  const topics = [
+    ...searchParams.getAll("topic"),
+    ...(searchParams.get("topics")?.split(",") ?? []),
+  ].filter(Boolean);
 
-  // create the stream for this client
-  const { stream } = createSSEStream(clientId, name);
+  // Only the signed in owner of a client id may read its events
+  const session = await getSession();
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: "You must be signed in to subscribe" },
+      { status: 401 },
+    );
+  }
+
+  if (!isClientOfUser(clientId, session.user.id)) {
+    return NextResponse.json(
+      { error: "Client id does not belong to the current user" },
+      { status: 403 },
+    );
+  }
+
+  const forbidden = await getForbiddenTopics(session.user.id, topics);
+  if (forbidden.length > 0) {
+    return NextResponse.json(
+      { error: "Not allowed to subscribe to topics", forbidden },
+      { status: 403 },
+    );
+  }
+
+  // This instance is draining, the client retries and lands on another one
+  if (isShuttingDown()) {
+    return NextResponse.json(
+      { error: "Server is shutting down" },
+      {
+        status: 503,
+        headers: {
+          "Retry-After": CONNECTION_LIMIT_RETRY_AFTER_SECONDS.toString(),
+        },
+      },
+    );
+  }
+
+  // Reject new streams over the per-IP and global caps
+  const ip = getClientIp(request.headers);
+  const limit = checkConnectionLimit(ip);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: `Too many SSE connections (${limit.scope} limit)` },
+      {
+        status: 429,
+        headers: {
+          "X-RateLimit-Limit": limit.limit.toString(),
+          "X-RateLimit-Remaining": "0",
+          "X-RateLimit-Reset": (
+            Date.now() +
+            limit.retryAfter * 1000
+          ).toString(),
+          "Retry-After": limit.retryAfter.toString(),
+        },
+      },
+    );
+  }
+
+  // EventSource sends the last id it received when it reconnects
+  const lastEventIdHeader = request.headers.get("last-event-id");
+  const lastEventId = lastEventIdHeader ? Number(lastEventIdHeader) : NaN;
+
+  // create the stream for this client, replaying anything it missed
+  const { stream } = createSSEStream(clientId, name, {
+    userId: session.user.id,
+    lastEventId: Number.isSafeInteger(lastEventId) ? lastEventId : undefined,
+    topics,
+    ip,
+  });
 
   // return Response with proper headers for EventSource
   return new Response(stream, {
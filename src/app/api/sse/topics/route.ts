@@ -0,0 +1,105 @@
+// app/api/sse/topics/route.ts
+import { NextResponse } from "next/server";
+import { getSession } from "@/features/auth";
+import {
+  getForbiddenTopics,
+  isClientOfUser,
+  isValidTopic,
+  subscribeToTopics,
+  unsubscribeFromTopics,
+} from "../../../../lib/sse";
+
+export const runtime = "nodejs";
+
+type TopicsBody = { clientId?: string; topics?: unknown };
+
+/**
+ * Validate the request and resolve the client and topics it refers to
+ */
+async function parseRequest(request: Request) {
+  const session = await getSession();
+  if (!session?.user) {
+    return {
+      error: NextResponse.json(
+        { ok: false, error: "You must be signed in to manage topics" },
+        { status: 401 },
+      ),
+    };
+  }
+
+  const { clientId, topics } = (await request.json()) as TopicsBody;
+  if (!clientId || !Array.isArray(topics) || topics.length === 0) {
+    return {
+      error: NextResponse.json(
+        { ok: false, error: "clientId and a non-empty topics array required" },
+        { status: 400 },
+      ),
+    };
+  }
+
+  if (!isClientOfUser(clientId, session.user.id)) {
+    return {
+      error: NextResponse.json(
+        { ok: false, error: "Client id does not belong to the current user" },
+        { status: 403 },
+      ),
+    };
+  }
+
+  const invalid = topics.filter(
+    (topic) => typeof topic !== "string" || !isValidTopic(topic),
+  );
+  if (invalid.length > 0) {
+    return {
+      error: NextResponse.json(
+        { ok: false, error: "Invalid topic names", invalid },
+        { status: 400 },
+      ),
+    };
+  }
+
+  return { userId: session.user.id, clientId, topics: topics as string[] };
+}
+
+export async function POST(request: Request) {
+  try {
+    const parsed = await parseRequest(request);
+    if (parsed.error) return parsed.error;
+
+    // Users may only follow topics they are allowed to read, e.g. reels they can watch
+    const forbidden = await getForbiddenTopics(parsed.userId, parsed.topics);
+    if (forbidden.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: "Not allowed to subscribe to topics", forbidden },
+        { status: 403 },
+      );
+    }
+
+    const topics = subscribeToTopics(parsed.clientId, parsed.topics);
+    return NextResponse.json({ ok: true, clientId: parsed.clientId, topics });
+  } catch (err) {
+    return NextResponse.json(
+      { ok: false, error: (err as Error).message },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const parsed = await parseRequest(request);
+    if (parsed.error) return parsed.error;
+
+    unsubscribeFromTopics(parsed.clientId, parsed.topics);
+    return NextResponse.json({
+      ok: true,
+      clientId: parsed.clientId,
+      topics: parsed.topics,
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { ok: false, error: (err as Error).message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,50 @@
+// app/api/webhooks/mux/dead-letters/[eventId]/route.ts
+import { NextResponse } from "next/server";
+import { getSession, isAdmin } from "@/features/auth";
+import { muxWebhookService } from "@/features/mux";
+import { reelService } from "@/features/reels";
+
+export const runtime = "nodejs";
+
+/**
+ * Replays a dead-lettered Mux webhook event, or one abandoned in processing
+ * If it fails again it stays in the dead-letter store with its new error
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ eventId: string }> },
+) {
+  try {
+    const session = await getSession();
+    if (!session?.user || !isAdmin(session)) {
+      return NextResponse.json(
+        { ok: false, error: "Admin access required" },
+        { status: session?.user ? 403 : 401 },
+      );
+    }
+
+    const { eventId } = await params;
+    const result = await muxWebhookService.replay(
+      eventId,
+      reelService.handleMuxEvent,
+    );
+    if (!result) {
+      return NextResponse.json(
+        { ok: false, error: "No failed or abandoned event with this id" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ ok: result === "processed", eventId, result });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: `Failed to replay event, ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,47 @@
+// app/api/webhooks/mux/dead-letters/route.ts
+import { NextResponse } from "next/server";
+import { getSession, isAdmin } from "@/features/auth";
+import { ListDeadLettersInputSchema, muxWebhookService } from "@/features/mux";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists Mux webhook events that failed or were abandoned in processing
+ * Accepts `cursor` and `limit` query parameters
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getSession();
+    if (!session?.user || !isAdmin(session)) {
+      return NextResponse.json(
+        { ok: false, error: "Admin access required" },
+        { status: session?.user ? 403 : 401 },
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const input = ListDeadLettersInputSchema.safeParse(
+      Object.fromEntries(searchParams),
+    );
+    if (!input.success) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid query", issues: input.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const page = await muxWebhookService.listFailed(input.data);
+    return NextResponse.json({ ok: true, ...page });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: `Failed to list dead letters, ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      },
+      { status: 500 },
+    );
+  }
+}
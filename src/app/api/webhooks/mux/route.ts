@@ -1,10 +1,13 @@
 import { type NextRequest } from "next/server";
 import { headers } from "next/headers";
 import { muxWebhookService } from "@/features/mux";
+import { reelService } from "@/features/reels";
 
 /**
  * Handles incoming Mux webhook events
  * This endpoint processes video-related events from Mux's webhook system
+ * and moves the matching reel through its lifecycle. Each event is
+ * processed once, however many times Mux delivers it
  *
  * @param request The incoming HTTP request from Mux's servers
  * @returns HTTP response indicating success or failure
@@ -15,37 +18,26 @@ export async function POST(request: NextRequest) {
     const body = await request.text();
     const event = await muxWebhookService.verifyWebhookEvent(body, headersList);
 
-    switch (event.type) {
-      // Upload-related events
-      case "video.upload.created":
-      case "video.upload.asset_created":
-      case "video.upload.cancelled":
-      case "video.upload.errored":
-        // TODO: Handle upload events
-        console.info(`Upload event: ${event.type}`, event.data);
-        break;
+    // Duplicates and dead-lettered failures are acknowledged so Mux stops
+    // retrying, failures can be replayed from the dead-letter routes
+    const result = await muxWebhookService.process(
+      event,
+      reelService.handleMuxEvent,
+    );
 
-      // Asset-related events
-      case "video.asset.created":
-      case "video.asset.updated":
-      case "video.asset.ready":
-        // TODO: Handle asset ready for playback
-        console.info(`Asset ready event: ${event.type}`, event.data);
-        break;
-
-      case "video.asset.deleted":
-      case "video.asset.errored":
-        // TODO: Handle asset problems
-        console.info(`Asset issue event: ${event.type}`, event.data);
-        break;
+    // Not acknowledged while another delivery is still processing the event,
+    // so Mux retries it in case that delivery never finishes
+    if (result === "in_flight") {
+      return Response.json({ message: "in flight", result }, { status: 409 });
+    }
 
-      // For any unhandled event types
-      default:
-        console.warn(`Unhandled webhook type: ${event.type}`, event.data);
-        break;
+    // Nor when it came before the events it depends on, so Mux delivers it
+    // again once they have been applied
+    if (result === "retry") {
+      return Response.json({ message: "retry", result }, { status: 409 });
     }
 
-    return Response.json({ message: "ok" }, { status: 200 });
+    return Response.json({ message: "ok", result }, { status: 200 });
   } catch (error) {
     console.error("Error processing Mux webhook:", error);
     return Response.json({ error: "Internal Server Error" }, { status: 500 });
@@ -4,9 +4,12 @@ import { getLanguage } from "@/features/i18n";
 import { type Metadata } from "next";
 import { Geist } from "next/font/google";
 
+import { env } from "@/env";
 import { TRPCReactProvider } from "@/trpc/react";
 
 export const metadata: Metadata = {
+  // Resolves relative URLs in page metadata, e.g. `openGraph.url`
+  metadataBase: new URL(env.NEXTAUTH_URL),
   title: "Create T3 App",
   description: "Generated by create-t3-app",
   icons: [{ rel: "icon", url: "/favicon.ico" }],
@@ -1,8 +1,53 @@
 import { env } from "@/env";
 import type { ClientOptions } from "@mux/mux-node";
+import type { MuxAssetSettings } from "@/lib/mux/types";
 
 export const clientOptions = {
   tokenId: env.MUX_TOKEN_ID,
   tokenSecret: env.MUX_TOKEN_SECRET,
   webhookSecret: env.MUX_WEBHOOK_SECRET,
+  // Signing key for playback tokens, the SDK would otherwise look for MUX_SIGNING_KEY
+  jwtSigningKey: env.MUX_SIGNING_KEY_ID,
+  jwtPrivateKey: env.MUX_SIGNING_KEY_SECRET,
 } satisfies ClientOptions;
+
+// Settings for assets created from uploads, overridden per upload
+export const MUX_DEFAULT_ASSET_SETTINGS: Required<MuxAssetSettings> = {
+  videoQuality: env.MUX_VIDEO_QUALITY,
+  maxResolutionTier: "1080p",
+  captionLanguages: ["en"],
+  mp4Renditions: [],
+  normalizeAudio: false,
+};
+
+// Direct upload URLs Mux stops accepting the file on after this long,
+// reels still waiting for their upload by then are marked errored
+export const MUX_UPLOAD_TIMEOUT_SECONDS = 60 * 60; // 1 hour
+
+// A webhook event still marked as processing after this long is assumed to
+// have been abandoned, e.g. the instance died, and the next delivery takes over
+export const MUX_WEBHOOK_STALE_MS = 5 * 60_000; // 5 minutes
+
+// Lifetime of the playback token sent to an uploader to preview their reel
+export const MUX_PREVIEW_TOKEN_TTL_SECONDS = 60 * 60; // 1 hour
+
+// Lifetime of the playback tokens issued to viewers, the player refreshes
+// them before they expire
+export const MUX_PLAYBACK_TOKEN_TTL_SECONDS = 10 * 60; // 10 minutes
+
+// Length and width of the animated preview shown when hovering a reel,
+// starting at its cover frame
+export const MUX_ANIMATED_PREVIEW_SECONDS = 3;
+export const MUX_ANIMATED_PREVIEW_WIDTH = 320;
+
+// Lifetime of the signed thumbnail used to unfurl shared reel links,
+// long enough for link previews to be cached
+export const MUX_SHARE_IMAGE_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+// Assets and reels younger than this are left alone by reconciliation,
+// their webhooks may still be on the way
+export const MUX_RECONCILE_GRACE_MS = 24 * 60 * 60_000; // 1 day
+
+// Mux assets, and the reels matched against them, handled per reconciliation
+// step so memory and query size stay bounded in large environments
+export const MUX_RECONCILE_PAGE_SIZE = 100;
@@ -0,0 +1,52 @@
+/**
+ * Limits on reel uploads, keeping one account from running up the Mux bill,
+ * and the thresholds reel views are counted by.
+ */
+import type { CreatorPlan } from "@prisma/client";
+import type { MuxAssetSettings } from "@/lib/mux/types";
+
+// Upload URLs a user may request per UTC day
+export const REEL_UPLOADS_PER_DAY = 20;
+
+// Uploads a user may have waiting for or in processing at once
+export const REEL_MAX_PENDING_UPLOADS = 3;
+
+// Uploads stuck processing for longer than this no longer count, e.g. after
+// a missed webhook, so a user is never locked out for good. Uploads waiting
+// for their file only count until their URL times out.
+export const REEL_PENDING_UPLOAD_WINDOW_MS = 24 * 60 * 60_000; // 1 day
+
+// Longest reel accepted once Mux reports it ready
+export const REEL_MAX_DURATION_SECONDS = 3 * 60; // 3 minutes
+
+// Longest side of the video accepted once Mux reports it ready
+export const REEL_MAX_RESOLUTION = 1920; // 1080p, in either orientation
+
+// Mux asset settings by creator plan, on top of `MUX_DEFAULT_ASSET_SETTINGS`
+export const REEL_PLAN_ASSET_SETTINGS: Record<CreatorPlan, MuxAssetSettings> = {
+  FREE: {},
+  PRO: {
+    videoQuality: "plus",
+    mp4Renditions: ["highest"],
+    normalizeAudio: true,
+  },
+};
+
+// Seconds a viewer must watch before a view counts, or the whole reel if shorter
+export const REEL_VIEW_MIN_SECONDS = 3;
+
+// Views of the same reel by the same viewer within this window count once
+export const REEL_VIEW_DEDUP_WINDOW_SECONDS = 30 * 60; // 30 minutes
+
+// How often players report watch time. The server accepts at most this much
+// more than the time since the previous report, so inflated reports are capped.
+export const REEL_VIEW_HEARTBEAT_SECONDS = 10;
+
+// A viewing session ends after this long without a report
+export const REEL_VIEW_SESSION_TTL_SECONDS = 30 * 60; // 30 minutes
+
+// Equal parts of a reel its retention curve is measured over
+export const REEL_RETENTION_BUCKETS = 10;
+
+// Share of a reel a view must reach to count as completed
+export const REEL_COMPLETION_RATIO = 0.9;
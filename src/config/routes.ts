@@ -10,6 +10,7 @@ import type { RouteData } from "@/types/routes";
  * To add a new route:
  * 1. Add the path constant to the paths object
  * 2. Add the route metadata to the routes object with the same key
+ *    Dynamic segments are written as in the app directory, e.g. "/reels/[reelId]"
  * 3. Specify accessType: "public" (unauthenticated only),
  *                        "protected" (authenticated only),
  *                        "universal" (both)
@@ -30,7 +31,12 @@ import type { RouteData } from "@/types/routes";
 export const paths = {
   landingPage: "/",
   homePage: "/home",
+  reelsFeedPage: "/reels",
   reelsUploadPage: "/reels/upload",
+  reelsAnalyticsPage: "/reels/analytics",
+  reelPage: "/reels/[reelId]",
+  sseClientPage: "/client",
+  sseAdminPage: "/admin",
 } as const;
 
 // ⚠️ DEFINE METADATA FOR NEW ROUTES HERE ⚠️
@@ -46,9 +52,34 @@ export const routes: Record<keyof typeof paths, RouteData> = {
     path: paths.homePage,
     accessType: "protected",
   },
+  reelsFeedPage: {
+    name: "Reels Feed Page",
+    path: paths.reelsFeedPage,
+    accessType: "universal",
+  },
   reelsUploadPage: {
     name: "Reels Upload Page",
     path: paths.reelsUploadPage,
     accessType: "protected",
   },
+  reelsAnalyticsPage: {
+    name: "Reels Analytics Page",
+    path: paths.reelsAnalyticsPage,
+    accessType: "protected",
+  },
+  reelPage: {
+    name: "Reel Page",
+    path: paths.reelPage,
+    accessType: "universal",
+  },
+  sseClientPage: {
+    name: "Notification Client Page",
+    path: paths.sseClientPage,
+    accessType: "protected",
+  },
+  sseAdminPage: {
+    name: "Notification Admin Dashboard",
+    path: paths.sseAdminPage,
+    accessType: "protected",
+  },
 };
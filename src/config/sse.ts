@@ -0,0 +1,52 @@
+/**
+ * Configuration for the Server-Sent Events manager (`lib/sse`).
+ */
+
+// Maximum number of events kept per client for Last-Event-ID replay
+export const REPLAY_BUFFER_SIZE = 100;
+
+// How long a client's replay buffer is kept after its last event
+export const REPLAY_TTL_SECONDS = 5 * 60; // 5 minutes
+
+// Maximum number of topics a single client can subscribe to
+export const MAX_TOPICS_PER_CLIENT = 50;
+
+// Bytes queued for a connection before it is treated as a slow consumer
+export const SLOW_CONSUMER_HIGH_WATER_MARK = 64 * 1024; // 64 KiB
+
+// Bytes queued for a connection before it is evicted outright
+export const SLOW_CONSUMER_MAX_QUEUE = 1024 * 1024; // 1 MiB
+
+// How long a connection may stay over the high-water mark before it is evicted
+export const SLOW_CONSUMER_GRACE_MS = 60_000; // 1 minute
+
+// Connection caps, enforced per instance. Over the client and user caps the
+// oldest connection is closed, over the IP and global caps new ones get a 429
+export const MAX_CONNECTIONS_PER_CLIENT = 3;
+export const MAX_CONNECTIONS_PER_USER = 10;
+export const MAX_CONNECTIONS_PER_IP = 50;
+export const MAX_TOTAL_CONNECTIONS = 10_000;
+
+// Retry-After sent with 429 responses when a connection cap is reached
+export const CONNECTION_LIMIT_RETRY_AFTER_SECONDS = 30;
+
+// Path the WebSocket server accepts upgrades on, when `WS_PORT` is set
+export const WS_PATH = "/api/ws";
+
+// Largest message a WebSocket client may send
+export const WS_MAX_MESSAGE_BYTES = 16 * 1024; // 16 KiB
+
+// Messages a WebSocket connection may send per window before it is closed
+export const WS_MAX_MESSAGES_PER_WINDOW = 60;
+export const WS_MESSAGE_WINDOW_MS = 10_000; // 10 seconds
+
+// Bytes buffered on a socket before events wait for it to drain, the
+// SSE stream behind it then applies the slow consumer rules above
+export const WS_HIGH_WATER_MARK = 64 * 1024; // 64 KiB
+
+// Graceful shutdown: connections are closed one by one over the drain window,
+// each told to reconnect after a random delay within the retry range so
+// clients do not all come back at the same instant
+export const SHUTDOWN_DRAIN_MS = 10_000; // 10 seconds
+export const SHUTDOWN_RETRY_MIN_MS = 1_000; // 1 second
+export const SHUTDOWN_RETRY_MAX_MS = 15_000; // 15 seconds
@@ -13,6 +13,9 @@ export const env = createEnv({
         : z.string().optional(),
     AUTH_DISCORD_ID: z.string(),
     AUTH_DISCORD_SECRET: z.string(),
+    // Public URL of the app, e.g. https://example.com, for absolute links
+    // in shared metadata and the Mux upload CORS origin
+    NEXTAUTH_URL: z.string().url().default("http://localhost:3000"),
     DATABASE_URL: z.string().url(),
     NODE_ENV: z
       .enum(["development", "test", "production"])
@@ -55,6 +58,21 @@ export const env = createEnv({
     TOLGEE_API_KEY: z.string().optional(),
     UPSTASH_REDIS_REST_URL: z.string().url().optional(),
     UPSTASH_REDIS_REST_TOKEN: z.string().optional(),
+
+    // SSE fan-out transport, Redis pub/sub is required when running
+    // more than one instance so events reach every connected client
+    SSE_TRANSPORT: z
+      .enum(["memory", "redis"])
+      .default(process.env.NODE_ENV === "production" ? "redis" : "memory"),
+
+    // Port for the optional WebSocket endpoint, disabled when unset
+    WS_PORT: z.coerce.number().int().positive().optional(),
+
+    // Bearer token required to scrape /api/metrics, open when unset
+    METRICS_TOKEN: z.string().min(16).optional(),
+
+    // Bearer token for scheduled jobs under /api/cron, admins only when unset
+    CRON_SECRET: z.string().min(16).optional(),
   },
 
   /**
@@ -64,6 +82,12 @@ export const env = createEnv({
    */
   client: {
     // NEXT_PUBLIC_CLIENTVAR: z.string(),
+
+    // Public URL of the WebSocket endpoint, e.g. wss://example.com/api/ws
+    NEXT_PUBLIC_WS_URL: z.string().url().optional(),
+
+    // Mux Data environment key, playback analytics are off without it
+    NEXT_PUBLIC_MUX_DATA_ENV_KEY: z.string().optional(),
   },
 
   /**
@@ -74,6 +98,7 @@ export const env = createEnv({
     AUTH_SECRET: process.env.AUTH_SECRET,
     AUTH_DISCORD_ID: process.env.AUTH_DISCORD_ID,
     AUTH_DISCORD_SECRET: process.env.AUTH_DISCORD_SECRET,
+    NEXTAUTH_URL: process.env.NEXTAUTH_URL,
     DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
     MUX_TOKEN_ID: process.env.MUX_TOKEN_ID,
@@ -90,6 +115,12 @@ export const env = createEnv({
     TOLGEE_API_KEY: process.env.TOLGEE_API_KEY,
     UPSTASH_REDIS_REST_URL: process.env.UPSTASH_REDIS_REST_URL,
     UPSTASH_REDIS_REST_TOKEN: process.env.UPSTASH_REDIS_REST_TOKEN,
+    SSE_TRANSPORT: process.env.SSE_TRANSPORT,
+    WS_PORT: process.env.WS_PORT,
+    NEXT_PUBLIC_WS_URL: process.env.NEXT_PUBLIC_WS_URL,
+    NEXT_PUBLIC_MUX_DATA_ENV_KEY: process.env.NEXT_PUBLIC_MUX_DATA_ENV_KEY,
+    METRICS_TOKEN: process.env.METRICS_TOKEN,
+    CRON_SECRET: process.env.CRON_SECRET,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -0,0 +1,2 @@
+export { auditService } from "./services/audit-service";
+export * from "./types";
@@ -0,0 +1,65 @@
+import { createHash } from "crypto";
+import { type NotificationAuditLog } from "@prisma/client";
+import { db } from "@/lib/db";
+import { createServiceContext } from "@/utils/service-utils";
+import type { NotificationAuditInput, NotificationTarget } from "../types";
+
+const { log, handleError } = createServiceContext("AuditService");
+
+const formatTarget = (target: NotificationTarget): string => {
+  switch (target.type) {
+    case "broadcast":
+      return "broadcast";
+    case "client":
+      return `client:${target.clientId}`;
+    case "user":
+      return `user:${target.userId}`;
+    case "topic":
+      return `topic:${target.topic}`;
+  }
+};
+
+/**
+ * Service for recording privileged actions
+ */
+export const auditService = {
+  /**
+   * Records a notify/broadcast call. Only a hash of the payload is
+   * stored so message contents are not duplicated into the audit log.
+   * @param input - Actor, target, event name and payload of the notification
+   * @returns {NotificationAuditLog} The created audit log entry
+   */
+  recordNotification: async ({
+    actorId,
+    target,
+    event,
+    payload,
+  }: NotificationAuditInput): Promise<NotificationAuditLog> => {
+    const payloadHash = createHash("sha256")
+      .update(JSON.stringify(payload ?? null))
+      .digest("hex");
+
+    try {
+      const entry = await db.notificationAuditLog.create({
+        data: { actorId, target: formatTarget(target), event, payloadHash },
+      });
+
+      log.info("notification recorded", { id: entry.id, actorId, event });
+      return entry;
+    } catch (error) {
+      return handleError("record notification audit log", error);
+    }
+  },
+
+  /**
+   * Lists the most recent notification audit log entries
+   * @param limit - Maximum number of entries to return
+   * @returns {NotificationAuditLog[]} Entries, newest first
+   */
+  listNotifications: async (limit = 50): Promise<NotificationAuditLog[]> => {
+    return db.notificationAuditLog.findMany({
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+  },
+};
@@ -0,0 +1,19 @@
+/**
+ * Who or what a notification was sent to
+ */
+export type NotificationTarget =
+  | { type: "broadcast" }
+  | { type: "client"; clientId: string }
+  | { type: "user"; userId: string }
+  | { type: "topic"; topic: string };
+
+/**
+ * Details of a notification sent through the admin endpoints
+ */
+export type NotificationAuditInput = {
+  /** Admin user that sent the notification */
+  actorId: string;
+  target: NotificationTarget;
+  event: string;
+  payload: unknown;
+};
@@ -22,5 +22,8 @@ export * from "./actions/auth-actions";
 // Utility functions for route protection and navigation
 export * from "./utils/route-utils"; // isPublicRoute, isPrivateRoute, etc.
 
+// Utility functions for role based access control
+export * from "./utils/role-utils"; // isAdmin
+
 // Public types that other modules may need when working with the auth module
 export * from "./types/public";
@@ -0,0 +1,10 @@
+import type { Session } from "next-auth";
+
+/**
+ * Returns true if the session belongs to an admin user.
+ * @param {Session | null} session Session to check
+ * @returns {boolean} True if the user has the ADMIN role, false otherwise
+ */
+export function isAdmin(session: Session | null | undefined): boolean {
+  return session?.user?.role === "ADMIN";
+}
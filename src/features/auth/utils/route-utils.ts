@@ -64,6 +64,10 @@ export function getRouteData(path: string): RouteData | undefined {
   return Object.values(routes)
     .sort((a, b) => b.path.length - a.path.length) // Sort by path length (longest first)
     .find((route): boolean => {
+      if (isDynamicPath(route.path)) {
+        return matchesDynamicPath(route.path, normalizedPath);
+      }
+
       return (
         normalizedPath.startsWith(route.path) &&
         (route.path === "/" || normalizedPath[route.path.length] === "/")
@@ -71,6 +75,48 @@ export function getRouteData(path: string): RouteData | undefined {
     });
 }
 
+/**
+ * Builds a concrete path from a route path with dynamic segments.
+ * @example buildPath(paths.reelPage, { reelId: "abc" }) // "/reels/abc"
+ * @param {RoutePath} path Route path, e.g. "/reels/[reelId]"
+ * @param {Record<string, string>} params Value of each dynamic segment
+ * @returns {string} The path with its segments filled in
+ */
+export function buildPath(
+  path: RoutePath,
+  params: Record<string, string>,
+): string {
+  return path.replace(/\[(\w+)\]/g, (segment, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${segment} in ${path}`);
+    }
+    return encodeURIComponent(value);
+  });
+}
+
+/**
+ * Returns true if the route path has dynamic segments, e.g. "[reelId]"
+ */
+function isDynamicPath(routePath: string): boolean {
+  return routePath.includes("[");
+}
+
+/**
+ * Returns true if the path is the dynamic route path, or nested in it,
+ * with any value in place of each dynamic segment
+ */
+function matchesDynamicPath(routePath: string, path: string): boolean {
+  const routeSegments = routePath.split("/");
+  const segments = path.split("/");
+  if (segments.length < routeSegments.length) return false;
+
+  return routeSegments.every(
+    (segment, i) =>
+      segment === segments[i] || (/^\[\w+\]$/.test(segment) && !!segments[i]),
+  );
+}
+
 /**
  * Returns the path to redirect to after a successful login.
  * This can be customized based on application requirements.
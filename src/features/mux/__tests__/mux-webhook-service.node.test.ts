@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import "@/__mocks__/utils/service-utils.mock";
+
+import { Prisma } from "@prisma/client";
+import type { UnwrapWebhookEvent } from "@mux/mux-node/resources/webhooks";
+import {
+  muxWebhookService,
+  MuxWebhookRetryError,
+} from "../services/mux-webhook-service";
+
+const {
+  mockCreate,
+  mockUpdate,
+  mockUpdateMany,
+  mockFindUnique,
+  mockFindUniqueOrThrow,
+} = vi.hoisted(() => ({
+  mockCreate: vi.fn(),
+  mockUpdate: vi.fn(),
+  mockUpdateMany: vi.fn(),
+  mockFindUnique: vi.fn(),
+  mockFindUniqueOrThrow: vi.fn(),
+}));
+
+vi.mock("@/lib/db", () => ({
+  db: {
+    muxWebhookEvent: {
+      create: mockCreate,
+      update: mockUpdate,
+      updateMany: mockUpdateMany,
+      findUnique: mockFindUnique,
+      findUniqueOrThrow: mockFindUniqueOrThrow,
+    },
+  },
+}));
+
+vi.mock("@/lib/mux/client", () => ({ muxClient: {} }));
+
+const event = {
+  id: "event1",
+  type: "video.asset.ready",
+  data: { id: "asset1" },
+} as UnwrapWebhookEvent;
+
+const uniqueViolation = new Prisma.PrismaClientKnownRequestError(
+  "Unique constraint failed",
+  { code: "P2002", clientVersion: "test" },
+);
+
+describe("muxWebhookService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreate.mockResolvedValue({});
+    mockUpdate.mockResolvedValue({});
+  });
+
+  it("processes a new event and marks it processed", async () => {
+    const handler = vi.fn().mockResolvedValue(true);
+
+    await expect(muxWebhookService.process(event, handler)).resolves.toBe(
+      "processed",
+    );
+    expect(handler).toHaveBeenCalledWith(event);
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: "event1" },
+      data: expect.objectContaining({ status: "PROCESSED" }) as object,
+    });
+  });
+
+  it("acknowledges duplicates without running the handler", async () => {
+    mockCreate.mockRejectedValue(uniqueViolation);
+    mockUpdateMany.mockResolvedValue({ count: 0 });
+    mockFindUnique.mockResolvedValue({ status: "PROCESSED" });
+    const handler = vi.fn();
+
+    await expect(muxWebhookService.process(event, handler)).resolves.toBe(
+      "duplicate",
+    );
+    expect(handler).not.toHaveBeenCalled();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("reports events another delivery is processing as in flight", async () => {
+    mockCreate.mockRejectedValue(uniqueViolation);
+    mockUpdateMany.mockResolvedValue({ count: 0 });
+    mockFindUnique.mockResolvedValue({ status: "PROCESSING" });
+    const handler = vi.fn();
+
+    await expect(muxWebhookService.process(event, handler)).resolves.toBe(
+      "in_flight",
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("takes over events abandoned in processing", async () => {
+    mockCreate.mockRejectedValue(uniqueViolation);
+    mockUpdateMany.mockResolvedValue({ count: 1 });
+    const handler = vi.fn().mockResolvedValue(true);
+
+    await expect(muxWebhookService.process(event, handler)).resolves.toBe(
+      "processed",
+    );
+    expect(handler).toHaveBeenCalledWith(event);
+  });
+
+  it("dead-letters events whose handler throws", async () => {
+    const handler = vi.fn().mockRejectedValue(new Error("db down"));
+
+    await expect(muxWebhookService.process(event, handler)).resolves.toBe(
+      "failed",
+    );
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: "event1" },
+      data: { status: "FAILED", lastError: "db down" },
+    });
+  });
+
+  it("releases events that came too early for Mux to deliver again", async () => {
+    const handler = vi
+      .fn()
+      .mockRejectedValue(new MuxWebhookRetryError("No reel yet"));
+
+    await expect(muxWebhookService.process(event, handler)).resolves.toBe(
+      "retry",
+    );
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: "event1" },
+      data: { lastError: "No reel yet", updatedAt: new Date(0) },
+    });
+  });
+
+  it("replays only failed or abandoned events", async () => {
+    mockUpdateMany.mockResolvedValueOnce({ count: 0 });
+    const handler = vi.fn().mockResolvedValue(true);
+
+    await expect(muxWebhookService.replay("event1", handler)).resolves.toBe(
+      null,
+    );
+    expect(handler).not.toHaveBeenCalled();
+
+    mockUpdateMany.mockResolvedValueOnce({ count: 1 });
+    mockFindUniqueOrThrow.mockResolvedValue({
+      id: "event1",
+      type: event.type,
+      payload: event,
+    });
+
+    await expect(muxWebhookService.replay("event1", handler)).resolves.toBe(
+      "processed",
+    );
+    expect(handler).toHaveBeenCalledWith(event);
+    expect(mockUpdateMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: {
+          id: "event1",
+          OR: [
+            { status: "FAILED" },
+            {
+              status: "PROCESSING",
+              updatedAt: { lt: expect.any(Date) as Date },
+            },
+          ],
+        },
+      }),
+    );
+  });
+});
@@ -1,2 +1,6 @@
-export { muxWebhookService } from "./services/mux-webhook-service";
+export {
+  muxWebhookService,
+  MuxWebhookRetryError,
+} from "./services/mux-webhook-service";
 export { muxUploadService } from "./services/mux-upload-service";
+export * from "./types";
@@ -1,10 +1,13 @@
+import { env } from "@/env";
 import { muxClient } from "@/lib/mux/client";
+import type { MuxAssetSettings } from "@/lib/mux/types";
 
 export const muxUploadService = {
-  createUploadUrl: async (userId: string) => {
+  createUploadUrl: async (userId: string, assetSettings?: MuxAssetSettings) => {
     const result = await muxClient.createUploadUrl({
       userId: userId,
-      corsOrigin: process.env.NEXTAUTH_URL ?? "http://localhost:3000",
+      corsOrigin: env.NEXTAUTH_URL,
+      assetSettings,
     });
 
     return {
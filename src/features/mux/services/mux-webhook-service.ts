@@ -1,5 +1,122 @@
-import { muxClient } from "@/lib/mux/client";
+import { Prisma } from "@prisma/client";
 import type { HeadersLike } from "@mux/mux-node/core.mjs";
+import type { UnwrapWebhookEvent } from "@mux/mux-node/resources/webhooks";
+import { MUX_WEBHOOK_STALE_MS } from "@/config/mux";
+import { db } from "@/lib/db";
+import { muxClient } from "@/lib/mux/client";
+import { createServiceContext } from "@/utils/service-utils";
+import type {
+  ListDeadLettersInput,
+  MuxWebhookHandler,
+  MuxWebhookResult,
+} from "../types";
+
+const { log } = createServiceContext("MuxWebhookService");
+
+/**
+ * Thrown by handlers for events that arrived too early to be applied, e.g.
+ * before the events they depend on. Rather than being dead-lettered, the
+ * event is released for Mux to deliver again.
+ */
+export class MuxWebhookRetryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MuxWebhookRetryError";
+  }
+}
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+/**
+ * Events left in processing past `MUX_WEBHOOK_STALE_MS`, abandoned when the
+ * instance died or the outcome could not be recorded
+ */
+const staleWhere = (): Prisma.MuxWebhookEventWhereInput => ({
+  status: "PROCESSING",
+  updatedAt: { lt: new Date(Date.now() - MUX_WEBHOOK_STALE_MS) },
+});
+
+/**
+ * Records a delivery so it is only processed once
+ * @returns `claimed` if this delivery should process the event, `in_flight`
+ * if another delivery is still processing it, `duplicate` if it is done
+ */
+const claim = async (
+  event: UnwrapWebhookEvent,
+): Promise<"claimed" | "in_flight" | "duplicate"> => {
+  try {
+    await db.muxWebhookEvent.create({
+      data: {
+        id: event.id,
+        type: event.type,
+        payload: event as unknown as Prisma.InputJsonObject,
+      },
+    });
+    return "claimed";
+  } catch (error) {
+    if (!isUniqueViolation(error)) throw error;
+  }
+
+  // Seen before, only take over deliveries abandoned mid-processing
+  const { count } = await db.muxWebhookEvent.updateMany({
+    where: { id: event.id, ...staleWhere() },
+    data: { attempts: { increment: 1 } },
+  });
+  if (count > 0) return "claimed";
+
+  const stored = await db.muxWebhookEvent.findUnique({
+    where: { id: event.id },
+    select: { status: true },
+  });
+  return stored?.status === "PROCESSING" ? "in_flight" : "duplicate";
+};
+
+/**
+ * Runs the handler for a claimed event and records the outcome.
+ * Failures are dead-lettered rather than thrown, events that came too
+ * early are released by backdating them past `MUX_WEBHOOK_STALE_MS`, so
+ * the next delivery takes them over as abandoned.
+ */
+const run = async (
+  event: UnwrapWebhookEvent,
+  handler: MuxWebhookHandler,
+): Promise<MuxWebhookResult> => {
+  try {
+    await handler(event);
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    if (error instanceof MuxWebhookRetryError) {
+      await db.muxWebhookEvent.update({
+        where: { id: event.id },
+        data: { lastError, updatedAt: new Date(0) },
+      });
+      log.warn("webhook event released for redelivery", {
+        id: event.id,
+        type: event.type,
+        reason: lastError,
+      });
+      return "retry";
+    }
+
+    await db.muxWebhookEvent.update({
+      where: { id: event.id },
+      data: { status: "FAILED", lastError },
+    });
+    log.error("webhook event dead-lettered", error, {
+      id: event.id,
+      type: event.type,
+    });
+    return "failed";
+  }
+
+  await db.muxWebhookEvent.update({
+    where: { id: event.id },
+    data: { status: "PROCESSED", processedAt: new Date(), lastError: null },
+  });
+  return "processed";
+};
 
 export const muxWebhookService = {
   verifyWebhookEvent: async (body: string, headers: HeadersLike) => {
@@ -12,4 +129,79 @@ export const muxWebhookService = {
     // If it's valid, unwrap and return the webhook payload so we can deal with the content.
     return muxClient.unwrapWebhook(body, headers);
   },
+
+  /**
+   * Processes a verified event once. Mux retries deliveries, so repeats
+   * of an event that was already handled or dead-lettered are acknowledged
+   * without running the handler again. Repeats of an event still being
+   * processed are reported as `in_flight`, so Mux keeps retrying in case
+   * that delivery never finishes, and events that came too early as `retry`.
+   * @param event - Event from `verifyWebhookEvent`
+   * @param handler - Applies the event, e.g. `reelService.handleMuxEvent`
+   * @returns {MuxWebhookResult} What happened to the delivery
+   */
+  process: async (
+    event: UnwrapWebhookEvent,
+    handler: MuxWebhookHandler,
+  ): Promise<MuxWebhookResult> => {
+    const claimed = await claim(event);
+    if (claimed !== "claimed") {
+      log.info("webhook event already claimed", {
+        id: event.id,
+        type: event.type,
+        result: claimed,
+      });
+      return claimed;
+    }
+
+    return run(event, handler);
+  },
+
+  /**
+   * Lists dead-lettered events, oldest first. Events abandoned in
+   * processing or released for redelivery are listed too, Mux may have
+   * given up on them.
+   * @param input - Cursor and page size
+   * @returns Events and the cursor of the next page, if any
+   */
+  listFailed: async ({ cursor, limit }: ListDeadLettersInput) => {
+    const items = await db.muxWebhookEvent.findMany({
+      where: { OR: [{ status: "FAILED" }, staleWhere()] },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = items.length > limit;
+    const events = hasMore ? items.slice(0, limit) : items;
+
+    return {
+      events,
+      nextCursor: hasMore ? events.at(-1)?.id : undefined,
+    };
+  },
+
+  /**
+   * Runs a dead-lettered or abandoned event through the handler again
+   * @param id - Mux event id
+   * @param handler - Applies the event, e.g. `reelService.handleMuxEvent`
+   * @returns {MuxWebhookResult | null} The outcome, or null if the event is neither dead-lettered nor abandoned
+   */
+  replay: async (
+    id: string,
+    handler: MuxWebhookHandler,
+  ): Promise<MuxWebhookResult | null> => {
+    const { count } = await db.muxWebhookEvent.updateMany({
+      where: { id, OR: [{ status: "FAILED" }, staleWhere()] },
+      data: { status: "PROCESSING", attempts: { increment: 1 } },
+    });
+    if (count === 0) return null;
+
+    const stored = await db.muxWebhookEvent.findUniqueOrThrow({
+      where: { id },
+    });
+    log.info("replaying webhook event", { id, type: stored.type });
+
+    return run(stored.payload as unknown as UnwrapWebhookEvent, handler);
+  },
 };
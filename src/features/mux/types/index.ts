@@ -0,0 +1,29 @@
+import { z } from "zod";
+import type { UnwrapWebhookEvent } from "@mux/mux-node/resources/webhooks";
+
+/**
+ * Applies a verified Mux webhook event, throwing if it could not be applied
+ */
+export type MuxWebhookHandler = (event: UnwrapWebhookEvent) => Promise<unknown>;
+
+/**
+ * Outcome of processing a webhook delivery
+ * - `processed`: the handler ran successfully
+ * - `duplicate`: the event was already processed or dead-lettered
+ * - `in_flight`: another delivery of the event is still being processed
+ * - `failed`: the handler threw and the event was dead-lettered
+ * - `retry`: the event came too early and waits for Mux to deliver it again
+ */
+export type MuxWebhookResult =
+  | "processed"
+  | "duplicate"
+  | "in_flight"
+  | "failed"
+  | "retry";
+
+export const ListDeadLettersInputSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ListDeadLettersInput = z.infer<typeof ListDeadLettersInputSchema>;
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import "@/__mocks__/utils/service-utils.mock";
+
+import { sendToUser } from "@/lib/sse";
+import { notificationService } from "../services/notification-service";
+
+const { mockCreate, mockFindMany, mockUpdateMany } = vi.hoisted(() => ({
+  mockCreate: vi.fn(),
+  mockFindMany: vi.fn(),
+  mockUpdateMany: vi.fn(),
+}));
+
+vi.mock("@/lib/db", () => ({
+  db: {
+    notification: {
+      create: mockCreate,
+      findMany: mockFindMany,
+      updateMany: mockUpdateMany,
+    },
+  },
+}));
+
+vi.mock("@/lib/sse", () => ({
+  sendToUser: vi.fn(),
+}));
+
+const createNotification = (id: string) => ({
+  id,
+  userId: "user1",
+  message: `message ${id}`,
+  from: "admin",
+  readAt: null,
+  createdAt: new Date(1_700_000_000_000),
+});
+
+describe("notificationService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("stores the notification before pushing it with its inbox id", async () => {
+    mockCreate.mockResolvedValue(createNotification("n1"));
+
+    const notification = await notificationService.notify("user1", {
+      message: "message n1",
+      from: "admin",
+    });
+
+    expect(notification.id).toBe("n1");
+    expect(mockCreate).toHaveBeenCalledWith({
+      data: { userId: "user1", message: "message n1", from: "admin" },
+    });
+    expect(sendToUser).toHaveBeenCalledWith("user1", "notification", {
+      id: "n1",
+      message: "message n1",
+      from: "admin",
+      timestamp: 1_700_000_000_000,
+    });
+  });
+
+  it("does not push notifications that failed to store", async () => {
+    mockCreate.mockRejectedValue(new Error("db down"));
+
+    await expect(
+      notificationService.notify("user1", { message: "hi" }),
+    ).rejects.toThrow("Failed to store notification: db down");
+    expect(sendToUser).not.toHaveBeenCalled();
+  });
+
+  it("returns a cursor when there are more notifications", async () => {
+    mockFindMany.mockResolvedValue(["n3", "n2", "n1"].map(createNotification));
+
+    const page = await notificationService.list("user1", {
+      limit: 2,
+      unreadOnly: true,
+    });
+
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: "user1", readAt: null },
+        take: 3,
+      }),
+    );
+    expect(page.notifications.map((n) => n.id)).toEqual(["n3", "n2"]);
+    expect(page.nextCursor).toBe("n2");
+  });
+
+  it("reports inbox failures through the service error handler", async () => {
+    mockFindMany.mockRejectedValue(new Error("db down"));
+    mockUpdateMany.mockRejectedValue(new Error("db down"));
+
+    await expect(
+      notificationService.list("user1", { limit: 2, unreadOnly: false }),
+    ).rejects.toThrow("Failed to list notifications: db down");
+    await expect(notificationService.markAllRead("user1")).rejects.toThrow(
+      "Failed to mark all notifications read: db down",
+    );
+  });
+});
@@ -0,0 +1,3 @@
+export { notificationService } from "./services/notification-service";
+export { notificationsRouter } from "./trpc/router";
+export * from "./types";
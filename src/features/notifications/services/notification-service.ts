@@ -0,0 +1,125 @@
+import { type Notification } from "@prisma/client";
+import { db } from "@/lib/db";
+import { sendToUser } from "@/lib/sse";
+import { createServiceContext } from "@/utils/service-utils";
+import type { ListNotificationsInput, SendNotificationInput } from "../types";
+
+const { log, handleError } = createServiceContext("NotificationService");
+
+/**
+ * Service for the persistent notification inbox
+ */
+export const notificationService = {
+  /**
+   * Stores a notification in the user's inbox and pushes it live
+   * over SSE to any of their open connections
+   * @param userId - Recipient
+   * @param input - Message and sender of the notification
+   * @returns {Notification} The stored notification
+   */
+  notify: async (
+    userId: string,
+    { message, from }: SendNotificationInput,
+  ): Promise<Notification> => {
+    try {
+      const notification = await db.notification.create({
+        data: { userId, message, from },
+      });
+
+      const delivered = sendToUser(userId, "notification", {
+        id: notification.id,
+        message,
+        from,
+        timestamp: notification.createdAt.getTime(),
+      });
+
+      log.info("notification stored", {
+        id: notification.id,
+        userId,
+        delivered,
+      });
+      return notification;
+    } catch (error) {
+      return handleError("store notification", error);
+    }
+  },
+
+  /**
+   * Lists a user's notifications, newest first
+   * @param userId - Owner of the inbox
+   * @param input - Cursor, page size and unread filter
+   * @returns Notifications and the cursor of the next page, if any
+   */
+  list: async (
+    userId: string,
+    { cursor, limit, unreadOnly }: ListNotificationsInput,
+  ) => {
+    try {
+      const items = await db.notification.findMany({
+        where: { userId, ...(unreadOnly ? { readAt: null } : {}) },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      const hasMore = items.length > limit;
+      const notifications = hasMore ? items.slice(0, limit) : items;
+
+      return {
+        notifications,
+        nextCursor: hasMore ? notifications.at(-1)?.id : undefined,
+      };
+    } catch (error) {
+      return handleError("list notifications", error);
+    }
+  },
+
+  /**
+   * Counts a user's unread notifications
+   * @param userId - Owner of the inbox
+   * @returns {number} Number of unread notifications
+   */
+  unreadCount: async (userId: string): Promise<number> => {
+    try {
+      return await db.notification.count({ where: { userId, readAt: null } });
+    } catch (error) {
+      return handleError("count unread notifications", error);
+    }
+  },
+
+  /**
+   * Marks some of a user's notifications as read. Ids belonging to
+   * other users are ignored.
+   * @param userId - Owner of the inbox
+   * @param ids - Notifications to mark
+   * @returns {number} Number of notifications updated
+   */
+  markRead: async (userId: string, ids: string[]): Promise<number> => {
+    try {
+      const { count } = await db.notification.updateMany({
+        where: { userId, id: { in: ids }, readAt: null },
+        data: { readAt: new Date() },
+      });
+      return count;
+    } catch (error) {
+      return handleError("mark notifications read", error);
+    }
+  },
+
+  /**
+   * Marks all of a user's notifications as read
+   * @param userId - Owner of the inbox
+   * @returns {number} Number of notifications updated
+   */
+  markAllRead: async (userId: string): Promise<number> => {
+    try {
+      const { count } = await db.notification.updateMany({
+        where: { userId, readAt: null },
+        data: { readAt: new Date() },
+      });
+      return count;
+    } catch (error) {
+      return handleError("mark all notifications read", error);
+    }
+  },
+};
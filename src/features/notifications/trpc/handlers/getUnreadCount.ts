@@ -0,0 +1,24 @@
+import { type Session } from "next-auth";
+import { TRPCError } from "@trpc/server";
+import { createServiceContext } from "@/utils/service-utils";
+import { notificationService } from "../../services/notification-service";
+
+const { log } = createServiceContext("getUnreadCountHandler");
+
+export const getUnreadCountHandler = async ({
+  ctx,
+}: {
+  ctx: { session: Session };
+}) => {
+  try {
+    const count = await notificationService.unreadCount(ctx.session.user.id);
+    return { count };
+  } catch (error) {
+    // Don't user `handleError` here, as we want to throw a TRPCError
+    log.error("counting unread notifications", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to count unread notifications",
+    });
+  }
+};
@@ -0,0 +1,26 @@
+import { type Session } from "next-auth";
+import { TRPCError } from "@trpc/server";
+import { createServiceContext } from "@/utils/service-utils";
+import { notificationService } from "../../services/notification-service";
+import type { ListNotificationsInput } from "../../types";
+
+const { log } = createServiceContext("listNotificationsHandler");
+
+export const listNotificationsHandler = async ({
+  ctx,
+  input,
+}: {
+  ctx: { session: Session };
+  input: ListNotificationsInput;
+}) => {
+  try {
+    return await notificationService.list(ctx.session.user.id, input);
+  } catch (error) {
+    // Don't user `handleError` here, as we want to throw a TRPCError
+    log.error("listing notifications", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to list notifications",
+    });
+  }
+};
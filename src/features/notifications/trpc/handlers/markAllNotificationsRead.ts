@@ -0,0 +1,24 @@
+import { type Session } from "next-auth";
+import { TRPCError } from "@trpc/server";
+import { createServiceContext } from "@/utils/service-utils";
+import { notificationService } from "../../services/notification-service";
+
+const { log } = createServiceContext("markAllNotificationsReadHandler");
+
+export const markAllNotificationsReadHandler = async ({
+  ctx,
+}: {
+  ctx: { session: Session };
+}) => {
+  try {
+    const updated = await notificationService.markAllRead(ctx.session.user.id);
+    return { updated };
+  } catch (error) {
+    // Don't user `handleError` here, as we want to throw a TRPCError
+    log.error("marking all notifications read", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to mark all notifications as read",
+    });
+  }
+};
@@ -0,0 +1,30 @@
+import { type Session } from "next-auth";
+import { TRPCError } from "@trpc/server";
+import { createServiceContext } from "@/utils/service-utils";
+import { notificationService } from "../../services/notification-service";
+import type { MarkNotificationsReadInput } from "../../types";
+
+const { log } = createServiceContext("markNotificationsReadHandler");
+
+export const markNotificationsReadHandler = async ({
+  ctx,
+  input,
+}: {
+  ctx: { session: Session };
+  input: MarkNotificationsReadInput;
+}) => {
+  try {
+    const updated = await notificationService.markRead(
+      ctx.session.user.id,
+      input.ids,
+    );
+    return { updated };
+  } catch (error) {
+    // Don't user `handleError` here, as we want to throw a TRPCError
+    log.error("marking notifications read", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to mark notifications as read",
+    });
+  }
+};
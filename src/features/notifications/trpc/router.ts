@@ -0,0 +1,20 @@
+import { createTRPCRouter, protectedProcedure } from "@/lib/trpc";
+import { listNotificationsHandler } from "./handlers/listNotifications";
+import { getUnreadCountHandler } from "./handlers/getUnreadCount";
+import { markNotificationsReadHandler } from "./handlers/markNotificationsRead";
+import { markAllNotificationsReadHandler } from "./handlers/markAllNotificationsRead";
+import {
+  ListNotificationsInputSchema,
+  MarkNotificationsReadInputSchema,
+} from "../types";
+
+export const notificationsRouter = createTRPCRouter({
+  list: protectedProcedure
+    .input(ListNotificationsInputSchema)
+    .query(listNotificationsHandler),
+  unreadCount: protectedProcedure.query(getUnreadCountHandler),
+  markRead: protectedProcedure
+    .input(MarkNotificationsReadInputSchema)
+    .mutation(markNotificationsReadHandler),
+  markAllRead: protectedProcedure.mutation(markAllNotificationsReadHandler),
+});
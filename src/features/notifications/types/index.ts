@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+const NOTIFICATIONS_PAGE_SIZE = 20;
+
+export const ListNotificationsInputSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.number().int().min(1).max(50).default(NOTIFICATIONS_PAGE_SIZE),
+  unreadOnly: z.boolean().default(false),
+});
+
+export type ListNotificationsInput = z.infer<
+  typeof ListNotificationsInputSchema
+>;
+
+export const MarkNotificationsReadInputSchema = z.object({
+  ids: z.array(z.string()).min(1).max(100),
+});
+
+export type MarkNotificationsReadInput = z.infer<
+  typeof MarkNotificationsReadInputSchema
+>;
+
+/**
+ * Content of an inbox notification
+ */
+export type SendNotificationInput = {
+  message: string;
+  /** Who or what sent it, e.g. "admin" */
+  from?: string;
+};
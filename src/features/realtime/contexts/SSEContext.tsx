@@ -0,0 +1,335 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import { env } from "@/env";
+import {
+  parseSSEPayload,
+  sseEvents,
+  sseSystemEvents,
+  type SSEClientEventName,
+  type SSEClientMessageName,
+  type SSEClientMessagePayload,
+} from "@/lib/sse/events";
+import type { SSEWebSocketFrame } from "@/lib/sse/types";
+import type {
+  SSEConnectOptions,
+  SSEConnectionProtocol,
+  SSEConnectionStatus,
+  SSEContextType,
+  SSEEventHandler,
+} from "../types";
+
+const eventNames = [
+  ...Object.keys(sseEvents),
+  ...Object.keys(sseSystemEvents),
+] as SSEClientEventName[];
+
+const isClientEventName = (name: string): name is SSEClientEventName =>
+  (eventNames as string[]).includes(name);
+
+// WebSocket reconnect backoff, EventSource reconnects on its own
+const RECONNECT_BASE_DELAY = 1_000;
+const RECONNECT_MAX_DELAY = 30_000;
+
+export const SSEContext = createContext<SSEContextType | null>(null);
+
+/**
+ * An open EventSource or WebSocket
+ */
+type Connection = {
+  close: () => void;
+  send: (type: SSEClientMessageName, payload: unknown) => boolean;
+};
+
+async function generateClientId(): Promise<string> {
+  const response = await fetch("/api/sse/generate-id", { method: "POST" });
+  const data = (await response.json()) as {
+    clientId?: string;
+    error?: string;
+  };
+  if (!response.ok || !data.clientId) {
+    throw new Error(data.error ?? "Failed to generate client id");
+  }
+  return data.clientId;
+}
+
+/**
+ * Owns a single EventSource or WebSocket for the subtree, so any number
+ * of `useSSE` hooks share one connection.
+ *
+ * @param autoConnect - Connect on mount, optionally with a name, topics and protocol
+ */
+export function SSEProvider({
+  children,
+  autoConnect,
+}: {
+  children: ReactNode;
+  autoConnect?: boolean | SSEConnectOptions;
+}) {
+  const [status, setStatus] = useState<SSEConnectionStatus>("disconnected");
+  const [clientId, setClientId] = useState<string | null>(null);
+  const [protocol, setProtocol] = useState<SSEConnectionProtocol | null>(null);
+  const connectionRef = useRef<Connection | null>(null);
+  const handlersRef = useRef(
+    new Map<SSEClientEventName, Set<(payload: unknown) => void>>(),
+  );
+
+  /**
+   * Validate an incoming event and pass it to its handlers
+   */
+  const emit = useCallback((eventName: SSEClientEventName, data: unknown) => {
+    const handlers = handlersRef.current.get(eventName);
+    if (!handlers?.size) return;
+
+    const parsed = parseSSEPayload(eventName, data);
+    if (!parsed.success) {
+      console.error(`Invalid SSE payload for ${eventName}`, parsed.error);
+      return;
+    }
+
+    for (const handler of handlers) handler(parsed.data);
+  }, []);
+
+  /**
+   * Mark a connection the server closed for good as disconnected
+   */
+  const closed = useCallback((connection: Connection) => {
+    if (connectionRef.current !== connection) return;
+    connectionRef.current = null;
+    setStatus("disconnected");
+  }, []);
+
+  const openEventSource = useCallback(
+    (id: string, options: SSEConnectOptions): Connection => {
+      const params = new URLSearchParams();
+      if (options.name) params.set("name", options.name);
+      for (const topic of options.topics ?? []) params.append("topic", topic);
+
+      const es = new EventSource(
+        `/api/sse/subscribe/${encodeURIComponent(id)}?${params.toString()}`,
+      );
+      const connection: Connection = {
+        close: () => es.close(),
+        send: () => false,
+      };
+
+      es.onopen = () => setStatus("connected");
+
+      // EventSource reconnects on its own while readyState is CONNECTING,
+      // sending Last-Event-ID so missed events are replayed
+      es.onerror = () => {
+        setStatus(
+          es.readyState === EventSource.CONNECTING ? "connecting" : "error",
+        );
+      };
+
+      // The server closed the connection for good, e.g. too many tabs open
+      es.addEventListener("__closed", () => {
+        es.close();
+        closed(connection);
+      });
+
+      for (const eventName of eventNames) {
+        es.addEventListener(eventName, (e: MessageEvent<string>) => {
+          if (!handlersRef.current.get(eventName)?.size) return;
+
+          try {
+            emit(eventName, JSON.parse(e.data));
+          } catch {
+            console.error(`SSE event ${eventName} is not valid JSON`);
+          }
+        });
+      }
+
+      return connection;
+    },
+    [emit, closed],
+  );
+
+  const openWebSocket = useCallback(
+    (url: string, id: string, options: SSEConnectOptions): Connection => {
+      // Kept across reconnects so topics and missed events carry over
+      const topics = new Set(options.topics);
+      let lastEventId: number | undefined;
+      let socket: WebSocket;
+      let stopped = false;
+      let attempt = 0;
+      // Delay asked for by the server with `__reconnect`
+      let retryAfter: number | undefined;
+      let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const connection: Connection = {
+        close: () => {
+          stopped = true;
+          clearTimeout(retryTimer);
+          socket.close();
+        },
+        send: (type, payload) => {
+          if (socket.readyState !== WebSocket.OPEN) return false;
+
+          if (type === "subscribe" || type === "unsubscribe") {
+            for (const topic of (payload as { topics: string[] }).topics) {
+              if (type === "subscribe") topics.add(topic);
+              else topics.delete(topic);
+            }
+          }
+          socket.send(JSON.stringify({ type, payload }));
+          return true;
+        },
+      };
+
+      const open = () => {
+        const params = new URLSearchParams({ clientId: id });
+        if (options.name) params.set("name", options.name);
+        for (const topic of topics) params.append("topic", topic);
+        if (lastEventId !== undefined) {
+          params.set("lastEventId", lastEventId.toString());
+        }
+
+        socket = new WebSocket(`${url}?${params.toString()}`);
+
+        socket.onopen = () => {
+          attempt = 0;
+          setStatus("connected");
+        };
+
+        socket.onmessage = (e: MessageEvent<string>) => {
+          let frame: SSEWebSocketFrame;
+          try {
+            frame = JSON.parse(e.data) as SSEWebSocketFrame;
+          } catch {
+            console.error("WebSocket message is not valid JSON");
+            return;
+          }
+
+          if (frame.id !== undefined) lastEventId = frame.id;
+          // The server closed the connection for good, e.g. too many tabs open
+          if (frame.event === "__closed") stopped = true;
+          if (frame.event === "__reconnect") {
+            const parsed = parseSSEPayload("__reconnect", frame.data);
+            if (parsed.success) retryAfter = parsed.data.retryAfter;
+          }
+          if (isClientEventName(frame.event)) emit(frame.event, frame.data);
+        };
+
+        socket.onclose = () => {
+          if (stopped) {
+            closed(connection);
+            return;
+          }
+
+          setStatus("connecting");
+          const delay =
+            retryAfter ??
+            Math.min(
+              RECONNECT_BASE_DELAY * 2 ** attempt++,
+              RECONNECT_MAX_DELAY,
+            );
+          retryAfter = undefined;
+          retryTimer = setTimeout(open, delay);
+        };
+      };
+
+      open();
+      return connection;
+    },
+    [emit, closed],
+  );
+
+  const disconnect = useCallback(() => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    setClientId(null);
+    setProtocol(null);
+    setStatus("disconnected");
+  }, []);
+
+  const connect = useCallback(
+    async (options: SSEConnectOptions = {}) => {
+      connectionRef.current?.close();
+      connectionRef.current = null;
+      setStatus("connecting");
+
+      let id: string;
+      try {
+        id = await generateClientId();
+      } catch (error) {
+        setStatus("error");
+        throw error;
+      }
+
+      const wsUrl = env.NEXT_PUBLIC_WS_URL;
+      if (options.protocol === "websocket" && !wsUrl) {
+        console.warn("NEXT_PUBLIC_WS_URL is not set, falling back to SSE");
+      }
+
+      const useWebSocket = options.protocol === "websocket" && !!wsUrl;
+      connectionRef.current = useWebSocket
+        ? openWebSocket(wsUrl, id, options)
+        : openEventSource(id, options);
+      setClientId(id);
+      setProtocol(useWebSocket ? "websocket" : "sse");
+    },
+    [openEventSource, openWebSocket],
+  );
+
+  const subscribe = useCallback(
+    <E extends SSEClientEventName>(
+      eventName: E,
+      handler: SSEEventHandler<E>,
+    ) => {
+      const handlers = handlersRef.current;
+      if (!handlers.has(eventName)) handlers.set(eventName, new Set());
+
+      const entry = handler as (payload: unknown) => void;
+      handlers.get(eventName)!.add(entry);
+      return () => {
+        handlers.get(eventName)?.delete(entry);
+      };
+    },
+    [],
+  );
+
+  const send = useCallback(
+    <M extends SSEClientMessageName>(
+      type: M,
+      payload: SSEClientMessagePayload<M>,
+    ) => connectionRef.current?.send(type, payload) ?? false,
+    [],
+  );
+
+  useEffect(() => {
+    if (autoConnect) {
+      connect(autoConnect === true ? {} : autoConnect).catch((error) => {
+        console.error("Failed to connect to SSE:", error);
+      });
+    }
+
+    return () => connectionRef.current?.close();
+    // Only connect once on mount
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      status,
+      clientId,
+      protocol,
+      connect,
+      disconnect,
+      subscribe,
+      send,
+    }),
+    [status, clientId, protocol, connect, disconnect, subscribe, send],
+  );
+
+  return <SSEContext.Provider value={value}>{children}</SSEContext.Provider>;
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { SSEClientEventName } from "@/lib/sse/events";
+import type { SSEEventHandler } from "../types";
+import { useSSEConnection } from "./useSSEConnection";
+
+/**
+ * Listen for an SSE event with a payload typed and validated
+ * against the event registry.
+ *
+ * @example
+ * const { status } = useSSE("notification", (payload) => {
+ *   toast(payload.message);
+ * });
+ */
+export function useSSE<E extends SSEClientEventName>(
+  eventName: E,
+  handler: SSEEventHandler<E>,
+) {
+  const { subscribe, status, clientId } = useSSEConnection();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () => subscribe(eventName, (payload) => handlerRef.current(payload)),
+    [subscribe, eventName],
+  );
+
+  return { status, clientId };
+}
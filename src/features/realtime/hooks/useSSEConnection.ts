@@ -0,0 +1,15 @@
+"use client";
+
+import { useContext } from "react";
+import { SSEContext } from "../contexts/SSEContext";
+import type { SSEContextType } from "../types";
+
+export function useSSEConnection(): SSEContextType {
+  const context = useContext(SSEContext);
+
+  if (!context) {
+    throw new Error("useSSEConnection must be used within an SSEProvider");
+  }
+
+  return context;
+}
@@ -0,0 +1,15 @@
+/**
+ * Public API for the realtime module.
+ * Browser side of the SSE manager in `@/lib/sse`, over SSE or WebSocket.
+ */
+
+// Provider that owns the EventSource or WebSocket connection for its subtree
+export { SSEProvider } from "./contexts/SSEContext";
+
+// Hook for listening to typed SSE events
+export { useSSE } from "./hooks/useSSE";
+
+// Hook for the connection status and connect/disconnect controls
+export { useSSEConnection } from "./hooks/useSSEConnection";
+
+export * from "./types";
@@ -0,0 +1,57 @@
+import type {
+  SSEClientEventName,
+  SSEClientMessageName,
+  SSEClientMessagePayload,
+  SSEEventPayload,
+} from "@/lib/sse/events";
+import type { SSEConnectionProtocol } from "@/lib/sse/types";
+
+export type { SSEConnectionProtocol };
+
+export type SSEConnectionStatus =
+  | "disconnected"
+  | "connecting"
+  | "connected"
+  | "error";
+
+/**
+ * Options for opening the SSE connection
+ */
+export type SSEConnectOptions = {
+  /** Display name shown in the admin dashboard */
+  name?: string;
+  /** Topics to subscribe to when connecting */
+  topics?: string[];
+  /**
+   * Connect over WebSocket to be able to `send` messages. Falls back to
+   * SSE when `NEXT_PUBLIC_WS_URL` is not set. Defaults to `"sse"`.
+   */
+  protocol?: SSEConnectionProtocol;
+};
+
+export type SSEEventHandler<E extends SSEClientEventName> = (
+  payload: SSEEventPayload<E>,
+) => void;
+
+export type SSEContextType = {
+  status: SSEConnectionStatus;
+  clientId: string | null;
+  /** Protocol of the current connection */
+  protocol: SSEConnectionProtocol | null;
+  connect: (options?: SSEConnectOptions) => Promise<void>;
+  disconnect: () => void;
+  /** Register a handler for an event, returns a function that removes it */
+  subscribe: <E extends SSEClientEventName>(
+    eventName: E,
+    handler: SSEEventHandler<E>,
+  ) => () => void;
+  /**
+   * Send a message to the server, only possible over WebSocket
+   *
+   * @returns false when not connected over an open WebSocket
+   */
+  send: <M extends SSEClientMessageName>(
+    type: M,
+    payload: SSEClientMessagePayload<M>,
+  ) => boolean;
+};
@@ -96,6 +96,18 @@ export class RedisService implements RedisServiceType {
     return this.client.publish(channel, message);
   }
 
+  /**
+   * Subscribe to a Redis channel.
+   *
+   * @returns A function that removes the subscription
+   */
+  async subscribe(
+    channel: string,
+    onMessage: (message: string) => void,
+  ): Promise<() => Promise<void>> {
+    return this.client.subscribe(channel, onMessage);
+  }
+
   // --------------------
   // Scan command with pagination
   // --------------------
@@ -11,5 +11,9 @@ export type RedisServiceType = {
   hGetAll(key: string): Promise<Record<string, string> | null>;
   hExists(key: string, field: string): Promise<boolean>;
   publish(channel: string, message: string): Promise<number>;
+  subscribe(
+    channel: string,
+    onMessage: (message: string) => void,
+  ): Promise<() => Promise<void>>;
   scanKeys(pattern: string, batchSize?: number): Promise<string[]>;
 };
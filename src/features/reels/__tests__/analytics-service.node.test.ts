@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import "@/__mocks__/utils/service-utils.mock";
+
+import { REEL_RETENTION_BUCKETS } from "@/config/reels";
+import { reelAnalyticsService } from "../services/analytics-service";
+
+const {
+  mockEval,
+  mockGetViewableReel,
+  mockCreateMany,
+  mockRetentionUpsert,
+  mockDailyUpsert,
+  mockFindMany,
+  mockGroupBy,
+} = vi.hoisted(() => ({
+  mockEval: vi.fn(),
+  mockGetViewableReel: vi.fn(),
+  mockCreateMany: vi.fn(),
+  mockRetentionUpsert: vi.fn(),
+  mockDailyUpsert: vi.fn(),
+  mockFindMany: vi.fn(),
+  mockGroupBy: vi.fn(),
+}));
+
+vi.mock("@/lib/redis", () => ({
+  getRedis: () => Promise.resolve({ eval: mockEval }),
+}));
+
+vi.mock("@/lib/db", () => ({
+  db: {
+    reelViewer: { createMany: mockCreateMany },
+    reelRetention: { upsert: mockRetentionUpsert },
+    reelDailyStats: { upsert: mockDailyUpsert, groupBy: mockGroupBy },
+    reel: { findMany: mockFindMany },
+    $transaction: (operations: unknown[]) => Promise.all(operations),
+  },
+}));
+
+vi.mock("../services/playback-service", () => ({
+  reelPlaybackService: { getViewableReel: mockGetViewableReel },
+}));
+
+const viewer = { key: "user:viewer1", userId: "viewer1" };
+
+const report = (watchedSeconds: number, position = 0) =>
+  reelAnalyticsService.recordView(viewer, {
+    reelId: "reel1",
+    sessionId: "session1",
+    watchedSeconds,
+    position,
+  });
+
+/**
+ * What the session script returns, as Redis hands it back
+ */
+const sessionUpdate = (
+  view: string,
+  views: number,
+  watchSeconds: number,
+  completions: number,
+  fromBucket: number,
+  toBucket: number,
+) => [view, views, watchSeconds, completions, fromBucket, toBucket].map(String);
+
+describe("reelAnalyticsService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetViewableReel.mockResolvedValue({ userId: "creator1", duration: 20 });
+  });
+
+  it("starts a session once the viewer may watch the reel", async () => {
+    mockEval
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(sessionUpdate("pending", 0, 0, 0, 0, 0));
+
+    await expect(report(1, 1)).resolves.toEqual({ counted: false });
+
+    expect(mockGetViewableReel).toHaveBeenCalledWith("reel1", "viewer1");
+    expect(mockEval).toHaveBeenCalledTimes(2);
+    const [, keys, args] = mockEval.mock.calls[1] as [
+      string,
+      string[],
+      (string | number)[],
+    ];
+    expect(keys).toEqual([
+      "reels:watch:reel1:session1",
+      "reels:view:reel1:user:viewer1",
+    ]);
+    expect(args.slice(0, 2)).toEqual([1, 1]);
+    expect(args.slice(-2)).toEqual([20, "pending"]);
+    expect(mockDailyUpsert).not.toHaveBeenCalled();
+  });
+
+  it("only checks the reel when the session is missing", async () => {
+    mockEval.mockResolvedValueOnce(sessionUpdate("pending", 0, 0, 0, 0, 0));
+
+    await report(2, 2);
+
+    expect(mockGetViewableReel).not.toHaveBeenCalled();
+    const [, , args] = mockEval.mock.calls[0] as [
+      string,
+      string[],
+      (string | number)[],
+    ];
+    expect(args.slice(-2)).toEqual(["", ""]);
+  });
+
+  it("rolls up a view once the session script counts it", async () => {
+    mockEval.mockResolvedValueOnce(sessionUpdate("counted", 1, 4, 0, 0, 3));
+
+    await expect(report(4, 4)).resolves.toEqual({ counted: true });
+
+    expect(mockCreateMany).toHaveBeenCalledWith({
+      data: [{ reelId: "reel1", viewerKey: "user:viewer1" }],
+      skipDuplicates: true,
+    });
+    expect(mockDailyUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          views: 1,
+          watchSeconds: 4,
+          completions: 0,
+        }) as unknown,
+      }),
+    );
+    expect(mockRetentionUpsert).toHaveBeenCalledTimes(3);
+  });
+
+  it("adds watch time and newly reached buckets of a counted view", async () => {
+    mockEval.mockResolvedValueOnce(sessionUpdate("counted", 0, 2.5, 1, 3, 5));
+
+    await expect(report(6.5, 19)).resolves.toEqual({ counted: true });
+
+    expect(mockCreateMany).not.toHaveBeenCalled();
+    expect(mockRetentionUpsert).toHaveBeenCalledTimes(2);
+    expect(mockRetentionUpsert).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        create: { reelId: "reel1", bucket: 3, viewers: 1 },
+      }),
+    );
+    expect(mockRetentionUpsert).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        create: { reelId: "reel1", bucket: 4, viewers: 1 },
+      }),
+    );
+    expect(mockDailyUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: {
+          views: { increment: 0 },
+          watchSeconds: { increment: 2.5 },
+          completions: { increment: 1 },
+        },
+      }),
+    );
+  });
+
+  it("does not count creators watching their own reels", async () => {
+    mockGetViewableReel.mockResolvedValue({ userId: "viewer1", duration: 20 });
+    mockEval
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(sessionUpdate("ignored", 0, 0, 0, 0, 0));
+
+    await expect(report(4)).resolves.toEqual({ counted: false });
+
+    const [, , args] = mockEval.mock.calls[1] as [
+      string,
+      string[],
+      (string | number)[],
+    ];
+    expect(args.at(-1)).toBe("ignored");
+    expect(mockCreateMany).not.toHaveBeenCalled();
+    expect(mockDailyUpsert).not.toHaveBeenCalled();
+  });
+
+  it("returns null for reels the viewer may not watch", async () => {
+    mockEval.mockResolvedValueOnce(null);
+    mockGetViewableReel.mockResolvedValue(null);
+
+    await expect(report(4)).resolves.toBeNull();
+    expect(mockEval).toHaveBeenCalledTimes(1);
+  });
+
+  it("rolls up per view stats for a creator", async () => {
+    mockFindMany.mockResolvedValue([
+      {
+        id: "reel1",
+        caption: "Hello",
+        publishedAt: null,
+        retention: [
+          { bucket: 0, viewers: 4 },
+          { bucket: 1, viewers: 2 },
+        ],
+        _count: { viewers: 3 },
+      },
+      {
+        id: "reel2",
+        caption: null,
+        publishedAt: null,
+        retention: [],
+        _count: { viewers: 0 },
+      },
+    ]);
+    mockGroupBy.mockResolvedValue([
+      {
+        reelId: "reel1",
+        _sum: { views: 4, watchSeconds: 30, completions: 1 },
+      },
+    ]);
+
+    const [stats, empty] = await reelAnalyticsService.getCreatorStats("user1");
+
+    expect(stats).toMatchObject({
+      reelId: "reel1",
+      views: 4,
+      uniqueViewers: 3,
+      averageWatchSeconds: 7.5,
+      completionRate: 0.25,
+    });
+    expect(stats?.retention).toHaveLength(REEL_RETENTION_BUCKETS);
+    expect(stats?.retention.slice(0, 3)).toEqual([1, 0.5, 0]);
+    expect(empty).toMatchObject({ views: 0, averageWatchSeconds: 0 });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import "@/__mocks__/utils/service-utils.mock";
+
+import type { Track } from "@mux/mux-node/resources/video/assets";
+import { MuxWebhookRetryError } from "@/features/mux";
+import { reelCaptionService } from "../services/caption-service";
+
+const { mockFindFirst, mockUpsert, mockGetTextTrack, mockIndex } = vi.hoisted(
+  () => ({
+    mockFindFirst: vi.fn(),
+    mockUpsert: vi.fn(),
+    mockGetTextTrack: vi.fn(),
+    mockIndex: vi.fn(),
+  }),
+);
+
+vi.mock("@/lib/db", () => ({
+  db: {
+    reel: { findFirst: mockFindFirst },
+    reelCaption: { upsert: mockUpsert },
+  },
+}));
+
+vi.mock("@/lib/mux/client", () => ({
+  muxClient: { getTextTrack: mockGetTextTrack },
+}));
+
+vi.mock("../services/search-index-service", () => ({
+  reelSearchIndexService: { index: mockIndex },
+}));
+
+const vtt = `WEBVTT
+
+NOTE generated by Mux
+
+1
+00:00:00.000 --> 00:00:02.000
+Hello <b>there</b>
+
+2
+00:00:02.000 --> 00:00:04.000 align:start
+Hello there
+and welcome
+`;
+
+const createTrack = (overrides: Partial<Track> = {}) =>
+  ({
+    id: "track1",
+    type: "text",
+    text_type: "subtitles",
+    text_source: "generated_vod",
+    language_code: "en",
+    name: "English (generated)",
+    status: "ready",
+    asset_id: "asset1",
+    ...overrides,
+  }) as Track;
+
+describe("reelCaptionService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFindFirst.mockResolvedValue({
+      id: "reel1",
+      playbackIds: ["playback1"],
+      captionLanguage: "en",
+    });
+    mockGetTextTrack.mockResolvedValue(vtt);
+  });
+
+  it("stores the track with the text of its cues and reindexes the reel", async () => {
+    await expect(reelCaptionService.markReady(createTrack())).resolves.toBe(
+      true,
+    );
+
+    expect(mockGetTextTrack).toHaveBeenCalledWith("playback1", "track1");
+    expect(mockUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { trackId: "track1" },
+        update: {
+          languageCode: "en",
+          name: "English (generated)",
+          status: "READY",
+          vtt,
+          transcript: "Hello there and welcome",
+        },
+      }),
+    );
+    expect(mockIndex).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "reel1" }),
+    );
+  });
+
+  it("ignores audio and video tracks", async () => {
+    await expect(
+      reelCaptionService.markReady(createTrack({ type: "audio" })),
+    ).resolves.toBe(false);
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  it("asks for tracks of reels not linked to their asset yet to be redelivered", async () => {
+    mockFindFirst.mockResolvedValue(null);
+
+    await expect(reelCaptionService.markReady(createTrack())).rejects.toThrow(
+      "No reel for asset asset1",
+    );
+    await expect(
+      reelCaptionService.markErrored(createTrack()),
+    ).rejects.toBeInstanceOf(MuxWebhookRetryError);
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  it("asks for ready tracks of reels without a playback id yet to be redelivered", async () => {
+    mockFindFirst.mockResolvedValue({
+      id: "reel1",
+      playbackIds: [],
+      captionLanguage: "en",
+    });
+
+    await expect(
+      reelCaptionService.markReady(createTrack()),
+    ).rejects.toBeInstanceOf(MuxWebhookRetryError);
+    expect(mockGetTextTrack).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import "@/__mocks__/utils/service-utils.mock";
+
+import { reelCoverService } from "../services/cover-service";
+
+const { mockFindFirst, mockSignPlaybackToken, mockGetStoryboard } = vi.hoisted(
+  () => ({
+    mockFindFirst: vi.fn(),
+    mockSignPlaybackToken: vi.fn(),
+    mockGetStoryboard: vi.fn(),
+  }),
+);
+
+vi.mock("@/lib/db", () => ({
+  db: { reel: { findFirst: mockFindFirst } },
+}));
+
+vi.mock("@/lib/mux/client", () => ({
+  muxClient: {
+    signPlaybackToken: mockSignPlaybackToken,
+    getStoryboard: mockGetStoryboard,
+  },
+}));
+
+describe("reelCoverService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSignPlaybackToken.mockResolvedValue("token1");
+    mockGetStoryboard.mockResolvedValue({
+      url: "https://image.mux.com/playback1/storyboard.jpg",
+      tile_width: 256,
+      tile_height: 455,
+      duration: 8,
+      tiles: [
+        { start: 0, x: 0, y: 0 },
+        { start: 4, x: 256, y: 0 },
+      ],
+    });
+  });
+
+  it("signs the storyboard sprite of a ready reel", async () => {
+    mockFindFirst.mockResolvedValue({
+      status: "READY",
+      playbackIds: ["playback1"],
+    });
+
+    const frames = await reelCoverService.getFrames("user1", {
+      reelId: "reel1",
+    });
+
+    expect(mockFindFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "reel1", userId: "user1", status: { not: "DELETED" } },
+      }),
+    );
+    expect(mockSignPlaybackToken).toHaveBeenCalledWith(
+      "playback1",
+      expect.any(Number),
+      "storyboard",
+    );
+    expect(frames).toEqual({
+      status: "ready",
+      spriteUrl: "https://image.mux.com/playback1/storyboard.jpg?token=token1",
+      tileWidth: 256,
+      tileHeight: 455,
+      duration: 8,
+      frames: [
+        { time: 0, x: 0, y: 0 },
+        { time: 4, x: 256, y: 0 },
+      ],
+    });
+  });
+
+  it("waits for processing before offering frames", async () => {
+    mockFindFirst.mockResolvedValue({ status: "PROCESSING", playbackIds: [] });
+
+    await expect(
+      reelCoverService.getFrames("user1", { reelId: "reel1" }),
+    ).resolves.toEqual({ status: "processing" });
+    expect(mockGetStoryboard).not.toHaveBeenCalled();
+  });
+});
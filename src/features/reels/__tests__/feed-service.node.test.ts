@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import "@/__mocks__/utils/service-utils.mock";
+
+import { reelFeedService } from "../services/feed-service";
+
+const { mockFindMany, mockSignPlayback } = vi.hoisted(() => ({
+  mockFindMany: vi.fn(),
+  mockSignPlayback: vi.fn(),
+}));
+
+vi.mock("@/lib/db", () => ({
+  db: { reel: { findMany: mockFindMany } },
+}));
+
+vi.mock("../services/playback-service", () => ({
+  reelPlaybackService: {
+    viewableWhere: () => ({ status: "READY" }),
+    signPlayback: mockSignPlayback,
+  },
+}));
+
+const createReel = (id: string) => ({
+  id,
+  caption: null,
+  hashtags: [],
+  publishedAt: new Date(),
+  user: { id: "creator", name: "Creator", image: null },
+});
+
+describe("reelFeedService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSignPlayback.mockImplementation((reel: { id: string }) =>
+      Promise.resolve({ reelId: reel.id }),
+    );
+  });
+
+  it("returns a signed page and the cursor of the next one", async () => {
+    mockFindMany.mockResolvedValue(["a", "b", "c"].map(createReel));
+
+    const feed = await reelFeedService.getFeed("viewer", {
+      mode: "forYou",
+      limit: 2,
+    });
+
+    expect(feed.reels.map((reel) => reel.playback.reelId)).toEqual(["a", "b"]);
+    expect(feed.nextCursor).toBe("b");
+    expect(mockSignPlayback).toHaveBeenCalledTimes(2);
+  });
+
+  it("only lists followed creators in following mode", async () => {
+    mockFindMany.mockResolvedValue([]);
+
+    await reelFeedService.getFeed("viewer", {
+      mode: "following",
+      cursor: "b",
+      limit: 2,
+    });
+
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: "READY",
+          user: { followers: { some: { followerId: "viewer" } } },
+        },
+        cursor: { id: "b" },
+        skip: 1,
+        take: 3,
+      }),
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import "@/__mocks__/utils/service-utils.mock";
+
+import type { Reel } from "@prisma/client";
+import { reelPlaybackService } from "../services/playback-service";
+
+const {
+  mockFindUnique,
+  mockFollowFindUnique,
+  mockSubscriptionFindFirst,
+  mockSignPlaybackToken,
+} = vi.hoisted(() => ({
+  mockFindUnique: vi.fn(),
+  mockFollowFindUnique: vi.fn(),
+  mockSubscriptionFindFirst: vi.fn(),
+  mockSignPlaybackToken: vi.fn(),
+}));
+
+vi.mock("@/lib/db", () => ({
+  db: {
+    reel: { findUnique: mockFindUnique },
+    follow: { findUnique: mockFollowFindUnique },
+    creatorSubscription: { findFirst: mockSubscriptionFindFirst },
+  },
+}));
+
+vi.mock("@/lib/mux/client", () => ({
+  muxClient: {
+    signPlaybackToken: mockSignPlaybackToken,
+    getPlaybackUrl: (playbackId: string, type: string, token: string) =>
+      `${type}/${playbackId}?token=${token}`,
+  },
+}));
+
+const published = new Date(Date.now() - 60_000);
+
+const createReel = (overrides: Partial<Reel> = {}) =>
+  ({
+    id: "reel1",
+    userId: "owner",
+    status: "READY",
+    playbackIds: ["playback1"],
+    visibility: "PUBLIC",
+    publishedAt: published,
+    coverTime: 2,
+    ...overrides,
+  }) as Reel;
+
+describe("reelPlaybackService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSignPlaybackToken.mockImplementation(
+      (_id: string, _ttl: number, type: string) => Promise.resolve(type),
+    );
+  });
+
+  it("signs tokens carrying the viewer id", async () => {
+    mockFindUnique.mockResolvedValue(createReel());
+
+    const playback = await reelPlaybackService.getPlayback("reel1", "viewer");
+
+    expect(playback?.tokens).toEqual({
+      playback: "video",
+      thumbnail: "thumbnail",
+      storyboard: "storyboard",
+    });
+    expect(mockSignPlaybackToken).toHaveBeenCalledWith(
+      "playback1",
+      600,
+      "thumbnail",
+      { viewer_id: "viewer", time: "2" },
+    );
+  });
+
+  it("only lets the owner watch drafts and scheduled reels", async () => {
+    const scheduled = { publishedAt: new Date(Date.now() + 60_000) };
+
+    await expect(
+      reelPlaybackService.canView(createReel(scheduled), "viewer"),
+    ).resolves.toBe(false);
+    await expect(
+      reelPlaybackService.canView(createReel(scheduled), "owner"),
+    ).resolves.toBe(true);
+  });
+
+  it("checks follows and subscriptions", async () => {
+    mockFollowFindUnique.mockResolvedValue(null);
+    mockSubscriptionFindFirst.mockResolvedValue({ id: "sub1" });
+
+    await expect(
+      reelPlaybackService.canView(
+        createReel({ visibility: "FOLLOWERS" }),
+        "viewer",
+      ),
+    ).resolves.toBe(false);
+    await expect(
+      reelPlaybackService.canView(
+        createReel({ visibility: "SUBSCRIBERS" }),
+        "viewer",
+      ),
+    ).resolves.toBe(true);
+    await expect(
+      reelPlaybackService.canView(createReel({ visibility: "SUBSCRIBERS" })),
+    ).resolves.toBe(false);
+  });
+
+  it("lets the owner follow a reel before others may", async () => {
+    mockFindUnique.mockResolvedValue(
+      createReel({ status: "PROCESSING", publishedAt: null }),
+    );
+
+    await expect(reelPlaybackService.canFollow("reel1", "owner")).resolves.toBe(
+      true,
+    );
+    await expect(
+      reelPlaybackService.canFollow("reel1", "viewer"),
+    ).resolves.toBe(false);
+
+    mockFindUnique.mockResolvedValue(createReel({ status: "DELETED" }));
+    await expect(reelPlaybackService.canFollow("reel1", "owner")).resolves.toBe(
+      false,
+    );
+  });
+
+  it("does not sign playback for reels the viewer may not watch", async () => {
+    mockFindUnique.mockResolvedValue(createReel({ visibility: "PRIVATE" }));
+
+    await expect(
+      reelPlaybackService.getPlayback("reel1", "viewer"),
+    ).resolves.toBeNull();
+    expect(mockSignPlaybackToken).not.toHaveBeenCalled();
+  });
+});
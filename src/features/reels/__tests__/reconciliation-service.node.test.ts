@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import "@/__mocks__/utils/service-utils.mock";
+
+import { MUX_RECONCILE_GRACE_MS } from "@/config/mux";
+import { reelReconciliationService } from "../services/reconciliation-service";
+
+const {
+  mockFindMany,
+  mockUpdate,
+  mockListAssets,
+  mockDeleteAsset,
+  mockRemove,
+  mockSyncAsset,
+} = vi.hoisted(() => ({
+  mockFindMany: vi.fn(),
+  mockUpdate: vi.fn(),
+  mockListAssets: vi.fn(),
+  mockDeleteAsset: vi.fn(),
+  mockRemove: vi.fn(),
+  mockSyncAsset: vi.fn(),
+}));
+
+vi.mock("@/lib/db", () => ({
+  db: { reel: { findMany: mockFindMany, update: mockUpdate } },
+}));
+
+vi.mock("@/lib/mux/client", () => ({
+  muxClient: { listAssetPages: mockListAssets, deleteAsset: mockDeleteAsset },
+}));
+
+vi.mock("../services/search-index-service", () => ({
+  reelSearchIndexService: { remove: mockRemove },
+}));
+
+vi.mock("../services/reel-service", () => ({
+  reelService: { syncAsset: mockSyncAsset },
+}));
+
+const old = Date.now() - 2 * MUX_RECONCILE_GRACE_MS;
+
+const createAsset = (id: string, createdAt = old, fromReel = true) => ({
+  id,
+  created_at: String(Math.floor(createdAt / 1000)),
+  ...(fromReel
+    ? {
+        upload_id: `upload-${id}`,
+        passthrough: JSON.stringify({ userId: "user1" }),
+      }
+    : {}),
+});
+
+type ReelRow = {
+  id: string;
+  uploadId?: string;
+  assetId: string | null;
+  status: string;
+  updatedAt: Date;
+};
+
+const reels: ReelRow[] = [
+  { id: "r1", assetId: "live", status: "READY", updatedAt: new Date(old) },
+  { id: "r2", assetId: "deleted", status: "DELETED", updatedAt: new Date() },
+  { id: "r3", assetId: "gone", status: "READY", updatedAt: new Date(old) },
+  { id: "r4", assetId: "pending", status: "PROCESSING", updatedAt: new Date() },
+  {
+    id: "r5",
+    uploadId: "upload-unlinked",
+    assetId: null,
+    status: "CREATED",
+    updatedAt: new Date(old),
+  },
+];
+
+/**
+ * Answers the per page query by asset and upload ids,
+ * and the query for reels whose asset may be gone
+ */
+const findReels = ({
+  where,
+}: {
+  where: {
+    OR?: [{ assetId: { in: string[] } }, { uploadId: { in: string[] } }];
+    updatedAt?: { lt: Date };
+  };
+}) => {
+  if (where.OR) {
+    const [{ assetId }, { uploadId }] = where.OR;
+    return Promise.resolve(
+      reels.filter(
+        (reel) =>
+          assetId.in.includes(reel.assetId ?? "") ||
+          uploadId.in.includes(reel.uploadId ?? ""),
+      ),
+    );
+  }
+
+  return Promise.resolve(
+    reels.filter(
+      (reel) =>
+        reel.assetId &&
+        reel.status !== "DELETED" &&
+        reel.updatedAt < where.updatedAt!.lt,
+    ),
+  );
+};
+
+describe("reelReconciliationService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockListAssets.mockReturnValue([
+      [
+        createAsset("live"),
+        createAsset("orphan"),
+        createAsset("fresh", Date.now()),
+      ],
+      [
+        createAsset("deleted"),
+        createAsset("unlinked"),
+        createAsset("other", old, false),
+      ],
+    ]);
+    mockFindMany.mockImplementation(findReels);
+  });
+
+  it("reports orphan assets and reels without an asset", async () => {
+    const report = await reelReconciliationService.reconcile();
+
+    expect(report).toEqual({
+      checkedAssets: 6,
+      orphanAssets: ["orphan", "deleted"],
+      unlinkedAssets: [{ reelId: "r5", assetId: "unlinked" }],
+      missingAssets: [{ reelId: "r3", assetId: "gone" }],
+      fixed: false,
+      failed: [],
+    });
+    expect(mockDeleteAsset).not.toHaveBeenCalled();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("only queries the reels of the assets on each page", async () => {
+    await reelReconciliationService.reconcile();
+
+    expect(mockFindMany).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        where: {
+          OR: [
+            { assetId: { in: ["deleted", "unlinked", "other"] } },
+            { uploadId: { in: ["upload-deleted", "upload-unlinked"] } },
+          ],
+        },
+      }),
+    );
+  });
+
+  it("links unlinked assets, deletes orphans and marks reels without an asset deleted", async () => {
+    mockDeleteAsset.mockImplementation((assetId: string) =>
+      assetId === "deleted"
+        ? Promise.reject(new Error("Mux is down"))
+        : Promise.resolve(true),
+    );
+
+    const report = await reelReconciliationService.reconcile({ fix: true });
+
+    expect(mockDeleteAsset).toHaveBeenCalledWith("orphan");
+    expect(mockDeleteAsset).not.toHaveBeenCalledWith("unlinked");
+    expect(mockDeleteAsset).not.toHaveBeenCalledWith("other");
+    expect(mockSyncAsset).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "unlinked" }),
+    );
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: "r3" },
+      data: { status: "DELETED", publishedAt: null },
+    });
+    expect(mockRemove).toHaveBeenCalledWith("r3");
+    expect(report.failed).toEqual(["deleted"]);
+  });
+});
@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import "@/__mocks__/utils/service-utils.mock";
+
+import type { Asset } from "@mux/mux-node/resources/video/assets";
+import type { Upload } from "@mux/mux-node/resources/video/uploads";
+import { reelService } from "../services/reel-service";
+import { ReelMetadataSchema } from "../types";
+
+const {
+  mockUpsert,
+  mockUpdateMany,
+  mockFindFirst,
+  mockUpdate,
+  mockSendToUser,
+  mockSignPlaybackToken,
+  mockDeleteAsset,
+  mockIndex,
+  mockRemove,
+} = vi.hoisted(() => ({
+  mockUpsert: vi.fn(),
+  mockUpdateMany: vi.fn(),
+  mockFindFirst: vi.fn(),
+  mockUpdate: vi.fn(),
+  mockSendToUser: vi.fn(),
+  mockSignPlaybackToken: vi.fn(),
+  mockDeleteAsset: vi.fn(),
+  mockIndex: vi.fn(),
+  mockRemove: vi.fn(),
+}));
+
+vi.mock("@/lib/db", () => ({
+  db: {
+    reel: {
+      upsert: mockUpsert,
+      updateMany: mockUpdateMany,
+      findFirst: mockFindFirst,
+      update: mockUpdate,
+    },
+  },
+}));
+
+vi.mock("@/lib/sse", () => ({ sendToUser: mockSendToUser }));
+
+vi.mock("@/lib/mux/client", () => ({
+  muxClient: {
+    signPlaybackToken: mockSignPlaybackToken,
+    deleteAsset: mockDeleteAsset,
+  },
+}));
+
+vi.mock("../services/search-index-service", () => ({
+  reelSearchIndexService: { index: mockIndex, remove: mockRemove },
+}));
+
+const passthrough = JSON.stringify({ userId: "user1" });
+
+const createUpload = (overrides: Partial<Upload> = {}) =>
+  ({
+    id: "upload1",
+    status: "waiting",
+    timeout: 3600,
+    new_asset_settings: { passthrough },
+    ...overrides,
+  }) as Upload;
+
+const createAsset = (overrides: Partial<Asset> = {}) =>
+  ({
+    id: "asset1",
+    upload_id: "upload1",
+    passthrough,
+    status: "ready",
+    duration: 12.5,
+    aspect_ratio: "9:16",
+    playback_ids: [{ id: "playback1", policy: "signed" }],
+    ...overrides,
+  }) as Asset;
+
+describe("reelService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateMany.mockResolvedValue({ count: 1 });
+    mockSignPlaybackToken.mockResolvedValue("token1");
+  });
+
+  it("creates the reel for the owner in the upload passthrough", async () => {
+    await expect(reelService.recordUpload(createUpload())).resolves.toBe(true);
+
+    expect(mockUpsert).toHaveBeenCalledWith({
+      where: { uploadId: "upload1" },
+      create: { uploadId: "upload1", userId: "user1", status: "CREATED" },
+      update: {},
+    });
+  });
+
+  it("stores playback details once the asset is ready", async () => {
+    await reelService.markReady(createAsset());
+
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: {
+        uploadId: "upload1",
+        status: { in: ["CREATED", "PROCESSING", "READY"] },
+      },
+      data: {
+        assetId: "asset1",
+        playbackIds: ["playback1"],
+        duration: 12.5,
+        aspectRatio: "9:16",
+        errorMessage: null,
+        status: "READY",
+      },
+    });
+  });
+
+  it("pushes the ready state and a preview token to the uploader", async () => {
+    await reelService.markReady(createAsset());
+
+    expect(mockSignPlaybackToken).toHaveBeenCalledWith("playback1", 3600);
+    expect(mockSendToUser).toHaveBeenCalledWith("user1", "reel-status", {
+      uploadId: "upload1",
+      status: "ready",
+      playbackId: "playback1",
+      playbackToken: "token1",
+      timestamp: expect.any(Number) as number,
+    });
+  });
+
+  it("rejects reels over the maximum duration and deletes the asset", async () => {
+    await reelService.markReady(createAsset({ duration: 600 }));
+
+    expect(mockUpdateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: "ERRORED",
+          errorMessage: expect.stringContaining("at most 3 minutes") as string,
+        }) as object,
+      }),
+    );
+    expect(mockSendToUser).toHaveBeenCalledWith(
+      "user1",
+      "reel-status",
+      expect.objectContaining({ status: "errored" }),
+    );
+    expect(mockDeleteAsset).toHaveBeenCalledWith("asset1");
+  });
+
+  it("does not move a reel backwards on late events", async () => {
+    mockUpdateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      reelService.syncAsset(createAsset({ status: "preparing" })),
+    ).resolves.toBe(false);
+    expect(mockUpdateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          uploadId: "upload1",
+          status: { in: ["CREATED", "PROCESSING"] },
+        },
+      }),
+    );
+  });
+
+  it("does not create reels without a valid owner", async () => {
+    await reelService.markUploadFailed(
+      createUpload({
+        status: "cancelled",
+        new_asset_settings: { passthrough: "not json" },
+      }),
+    );
+
+    expect(mockUpsert).not.toHaveBeenCalled();
+    expect(mockUpdateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { errorMessage: "Upload cancelled", status: "ERRORED" },
+      }),
+    );
+  });
+
+  it("finds deleted assets by asset id when they have no upload", async () => {
+    await reelService.markDeleted(
+      createAsset({ upload_id: undefined, passthrough: undefined }),
+    );
+
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: {
+        assetId: "asset1",
+        status: {
+          in: ["CREATED", "PROCESSING", "READY", "ERRORED", "DELETED"],
+        },
+      },
+      data: { status: "DELETED" },
+    });
+  });
+
+  it("clears the caption and keeps the cover frame within the video", async () => {
+    mockFindFirst.mockResolvedValue({ id: "reel1", duration: 12.5 });
+    mockUpdate.mockResolvedValue({ id: "reel1" });
+
+    await reelService.updateMetadata("user1", {
+      reelId: "reel1",
+      ...ReelMetadataSchema.parse({ caption: "  ", coverTime: 30 }),
+    });
+
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: "reel1" },
+      data: expect.objectContaining({
+        caption: null,
+        coverTime: 12.5,
+      }) as object,
+    });
+  });
+
+  it("schedules publishing for the owner only", async () => {
+    const publishAt = new Date(Date.now() + 60_000);
+    mockFindFirst.mockResolvedValue({ id: "reel1", status: "PROCESSING" });
+    mockUpdate.mockResolvedValue({ id: "reel1", publishedAt: publishAt });
+
+    await reelService.publish("user1", { reelId: "reel1", publishAt });
+
+    expect(mockFindFirst).toHaveBeenCalledWith({
+      where: { id: "reel1", userId: "user1", status: { not: "DELETED" } },
+    });
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: "reel1" },
+      data: { publishedAt: publishAt },
+    });
+  });
+
+  it("does not publish reels that failed processing", async () => {
+    mockFindFirst.mockResolvedValue({ id: "reel1", status: "ERRORED" });
+
+    await expect(
+      reelService.publish("user1", { reelId: "reel1" }),
+    ).resolves.toBeNull();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("deletes a reel, its search entry and its Mux asset", async () => {
+    mockFindFirst.mockResolvedValue({ id: "reel1", assetId: "asset1" });
+    mockUpdate.mockResolvedValue({ id: "reel1", status: "DELETED" });
+
+    await reelService.deleteReel("user1", { reelId: "reel1" });
+
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: "reel1" },
+      data: { status: "DELETED", publishedAt: null },
+    });
+    expect(mockRemove).toHaveBeenCalledWith("reel1");
+    expect(mockDeleteAsset).toHaveBeenCalledWith("asset1");
+  });
+
+  it("keeps a reel deleted when Mux cannot delete its asset", async () => {
+    mockFindFirst.mockResolvedValue({ id: "reel1", assetId: "asset1" });
+    mockUpdate.mockResolvedValue({ id: "reel1", status: "DELETED" });
+    mockDeleteAsset.mockRejectedValue(new Error("Mux is down"));
+
+    await expect(
+      reelService.deleteReel("user1", { reelId: "reel1" }),
+    ).resolves.toMatchObject({ status: "DELETED" });
+  });
+
+  it("reports database failures when deleting a reel", async () => {
+    mockFindFirst.mockResolvedValue({ id: "reel1", assetId: "asset1" });
+    mockUpdate.mockRejectedValue(new Error("db down"));
+
+    await expect(
+      reelService.deleteReel("user1", { reelId: "reel1" }),
+    ).rejects.toThrow("Failed to delete reel: db down");
+    expect(mockDeleteAsset).not.toHaveBeenCalled();
+  });
+});
+
+describe("ReelMetadataSchema", () => {
+  it("normalises and deduplicates hashtags", () => {
+    expect(
+      ReelMetadataSchema.parse({ hashtags: ["#Travel", "travel", "café_2"] }),
+    ).toEqual({ hashtags: ["travel", "café_2"], visibility: "PUBLIC" });
+  });
+
+  it("rejects hashtags with other characters", () => {
+    expect(
+      ReelMetadataSchema.safeParse({ hashtags: ["no spaces"] }).success,
+    ).toBe(false);
+  });
+});
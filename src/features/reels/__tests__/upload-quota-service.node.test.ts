@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import "@/__mocks__/utils/service-utils.mock";
+
+import { REEL_MAX_PENDING_UPLOADS, REEL_UPLOADS_PER_DAY } from "@/config/reels";
+import { reelUploadQuotaService } from "../services/upload-quota-service";
+
+const { mockCount, mockUpdateMany, mockEval, mockDecr, mockSet, mockDel } =
+  vi.hoisted(() => ({
+    mockCount: vi.fn(),
+    mockUpdateMany: vi.fn(),
+    mockEval: vi.fn(),
+    mockDecr: vi.fn(),
+    mockSet: vi.fn(),
+    mockDel: vi.fn(),
+  }));
+
+vi.mock("@/lib/db", () => ({
+  db: { reel: { count: mockCount, updateMany: mockUpdateMany } },
+}));
+
+vi.mock("@/lib/redis", () => ({
+  getRedis: () =>
+    Promise.resolve({
+      eval: mockEval,
+      decr: mockDecr,
+      set: mockSet,
+      del: mockDel,
+    }),
+}));
+
+describe("reelUploadQuotaService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCount.mockResolvedValue(0);
+    mockSet.mockResolvedValue("OK");
+  });
+
+  it("takes an upload from the day's counter and returns its key", async () => {
+    mockEval.mockResolvedValue(1);
+
+    const quota = await reelUploadQuotaService.reserve("user1");
+
+    const [, [key], [limit]] = mockEval.mock.calls[0] as [
+      string,
+      string[],
+      number[],
+    ];
+    expect(key).toMatch(/^reels:uploads:user1:\d{4}-\d{2}-\d{2}$/);
+    expect(limit).toBe(REEL_UPLOADS_PER_DAY);
+    expect(quota).toEqual({
+      allowed: true,
+      remaining: REEL_UPLOADS_PER_DAY - 1,
+      reservation: key,
+    });
+  });
+
+  it("refuses uploads over the daily quota and releases the lock", async () => {
+    mockEval.mockResolvedValue(0);
+
+    await expect(reelUploadQuotaService.reserve("user1")).resolves.toEqual({
+      allowed: false,
+      reason: expect.stringContaining("a day") as string,
+    });
+    expect(mockDel).toHaveBeenCalledWith("reels:uploads:user1:lock");
+  });
+
+  it("refuses uploads while too many are pending, without using quota", async () => {
+    mockCount.mockResolvedValue(REEL_MAX_PENDING_UPLOADS);
+
+    const quota = await reelUploadQuotaService.reserve("user1");
+
+    expect(quota.allowed).toBe(false);
+    expect(mockEval).not.toHaveBeenCalled();
+    expect(mockDel).toHaveBeenCalledWith("reels:uploads:user1:lock");
+  });
+
+  it("errors uploads past the Mux timeout so they stop counting", async () => {
+    mockEval.mockResolvedValue(1);
+
+    await reelUploadQuotaService.reserve("user1");
+
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: {
+        userId: "user1",
+        status: "CREATED",
+        createdAt: { lt: expect.any(Date) as Date },
+      },
+      data: { status: "ERRORED", errorMessage: "Upload timed out" },
+    });
+    expect(mockUpdateMany.mock.invocationCallOrder[0]).toBeLessThan(
+      mockCount.mock.invocationCallOrder[0]!,
+    );
+  });
+
+  it("refuses a reservation while another one is in progress", async () => {
+    mockSet.mockResolvedValue(null);
+
+    const quota = await reelUploadQuotaService.reserve("user1");
+
+    expect(quota.allowed).toBe(false);
+    expect(mockCount).not.toHaveBeenCalled();
+    expect(mockEval).not.toHaveBeenCalled();
+  });
+
+  it("gives the upload back to the day it was taken from", async () => {
+    await reelUploadQuotaService.release(
+      "user1",
+      "reels:uploads:user1:2026-01-01",
+      { refund: true },
+    );
+
+    expect(mockDecr).toHaveBeenCalledWith("reels:uploads:user1:2026-01-01");
+    expect(mockDel).toHaveBeenCalledWith("reels:uploads:user1:lock");
+  });
+});
@@ -1,12 +1,21 @@
+"use server";
+
 import { getSession } from "@/features/auth";
 import { muxUploadService } from "@/features/mux";
 import { createServiceContext } from "@/utils/service-utils";
+import { reelService } from "../services/reel-service";
+import { reelUploadQuotaService } from "../services/upload-quota-service";
+import { reelUploadSettingsService } from "../services/upload-settings-service";
+import { ReelUploadInputSchema, type ReelUploadInput } from "../types";
 
 const { log, handleError } = createServiceContext("ReelActions");
 /**
- * Server action to get a direct upload URL for a new reel
+ * Server action to get a direct upload URL for a new reel,
+ * called by the uploader once the creator starts the upload
+ * @param input - Language to generate captions in, if any
+ * @returns The upload, or `error` to show the user when they are over their upload limits
  */
-export async function getUploadUrl() {
+export async function getUploadUrl(input: ReelUploadInput = {}) {
   log.info("requesting reels upload URL");
 
   // Check authentication
@@ -16,19 +25,63 @@ export async function getUploadUrl() {
     throw new Error("You must be signed in to upload videos");
   }
 
+  const { captionLanguage } = ReelUploadInputSchema.parse(input);
+  const quota = await reelUploadQuotaService.reserve(session.user.id);
+  if (!quota.allowed) return { error: quota.reason };
+
+  // The daily upload is given back unless the creator gets their URL
+  let issued = false;
   try {
-    // Use your mux client to create an upload URL
+    // Mux settings such as quality and downloads depend on the creator's plan
+    const assetSettings = await reelUploadSettingsService.forCreator(
+      session.user.id,
+    );
     const { uploadId, uploadUrl } = await muxUploadService.createUploadUrl(
       session.user.id,
+      {
+        ...assetSettings,
+        captionLanguages: captionLanguage ? [captionLanguage] : [],
+      },
+    );
+
+    // The reel starts as a draft the creator fills in while it uploads
+    const reel = await reelService.createForUpload(
+      session.user.id,
+      uploadId,
+      captionLanguage,
     );
 
     log.info("Upload URL created successfully", {
       uploadId,
       uploadUrl,
+      reelId: reel.id,
     });
 
-    return { uploadId, uploadUrl };
+    issued = true;
+    return { uploadId, uploadUrl, reelId: reel.id };
   } catch (error) {
     handleError("requesting reels upload URL", error);
+  } finally {
+    await reelUploadQuotaService.release(session.user.id, quota.reservation, {
+      refund: !issued,
+    });
+  }
+}
+
+/**
+ * Server action to give up on an upload that failed in the browser, so it
+ * stops counting as pending right away instead of once its URL times out
+ * @param uploadId - Upload from `getUploadUrl`
+ */
+export async function cancelUpload(uploadId: string) {
+  const session = await getSession();
+  if (!session?.user) {
+    throw new Error("You must be signed in to cancel uploads");
+  }
+
+  try {
+    await reelService.cancelUpload(session.user.id, uploadId);
+  } catch (error) {
+    handleError("cancelling reel upload", error);
   }
 }
@@ -0,0 +1,98 @@
+"use client";
+import { api } from "@/trpc/react";
+import type { ReelCoverFrames } from "../types";
+
+// How often to check whether Mux has finished processing the reel
+const PROCESSING_POLL_MS = 5_000;
+
+type Storyboard = Extract<ReelCoverFrames, { status: "ready" }>;
+
+/**
+ * One frame cut from the storyboard sprite, scaled to `width`
+ */
+const Frame = ({
+  storyboard,
+  frame,
+  width,
+}: {
+  storyboard: Storyboard;
+  frame: Storyboard["frames"][number];
+  width: number;
+}) => {
+  const { tileWidth, tileHeight, frames } = storyboard;
+  const scale = width / tileWidth;
+  const spriteWidth = Math.max(...frames.map(({ x }) => x)) + tileWidth;
+  const spriteHeight = Math.max(...frames.map(({ y }) => y)) + tileHeight;
+
+  return (
+    <div
+      className="rounded-md bg-no-repeat"
+      style={{
+        width,
+        height: tileHeight * scale,
+        backgroundImage: `url(${storyboard.spriteUrl})`,
+        backgroundPosition: `-${frame.x * scale}px -${frame.y * scale}px`,
+        backgroundSize: `${spriteWidth * scale}px ${spriteHeight * scale}px`,
+      }}
+    />
+  );
+};
+
+/**
+ * Lets the creator scrub through the storyboard of their reel and pick
+ * the frame shown as its cover in feeds and search results
+ *
+ * @param value - Cover time in seconds
+ * @param onChange - Called with the time of the picked frame
+ */
+const CoverPicker = ({
+  reelId,
+  value,
+  onChange,
+}: {
+  reelId: string;
+  value?: number;
+  onChange: (time: number) => void;
+}) => {
+  const { data, error } = api.reels.coverFrames.useQuery(
+    { reelId },
+    {
+      refetchInterval: (query) =>
+        query.state.data?.status === "processing" ? PROCESSING_POLL_MS : false,
+    },
+  );
+
+  if (error) return <p className="text-sm text-red-400">{error.message}</p>;
+
+  if (data?.status !== "ready" || data.frames.length === 0) {
+    return (
+      <p className="text-sm text-white/70">
+        Cover frames appear once your reel has been processed
+      </p>
+    );
+  }
+
+  // The last frame starting at or before the cover time
+  const after = data.frames.findIndex((frame) => frame.time > (value ?? 0));
+  const selected = Math.max(0, (after === -1 ? data.frames.length : after) - 1);
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <Frame storyboard={data} frame={data.frames[selected]!} width={160} />
+      <input
+        type="range"
+        className="w-full"
+        min={0}
+        max={data.frames.length - 1}
+        value={selected}
+        aria-label="Cover frame"
+        onChange={(e) => onChange(data.frames[Number(e.target.value)]!.time)}
+      />
+      <span className="text-sm text-white/70">
+        {data.frames[selected]!.time.toFixed(1)}s
+      </span>
+    </div>
+  );
+};
+
+export default CoverPicker;
@@ -0,0 +1,39 @@
+"use client";
+import { api } from "@/trpc/react";
+import ReelCard from "./ReelCard";
+
+/**
+ * Grid of a creator's latest reels the viewer may watch
+ *
+ * @param exclude - Reel to leave out, e.g. the one being watched
+ */
+const CreatorReels = ({
+  creatorId,
+  exclude,
+  limit = 6,
+}: {
+  creatorId: string;
+  exclude?: string;
+  limit?: number;
+}) => {
+  const { data } = api.reels.feed.useQuery({
+    mode: "forYou",
+    creatorId,
+    limit: limit + 1,
+  });
+  const reels = data?.reels
+    .filter((reel) => reel.id !== exclude)
+    .slice(0, limit);
+
+  if (!reels?.length) return null;
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {reels.map((reel) => (
+        <ReelCard key={reel.id} reel={reel} />
+      ))}
+    </div>
+  );
+};
+
+export default CreatorReels;
@@ -0,0 +1,45 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { paths } from "@/config/routes";
+import { api } from "@/trpc/react";
+
+/**
+ * Lets the creator delete their reel, then leaves for the feed
+ * with any cached playback or feed pages of it dropped
+ */
+const DeleteReelButton = ({ reelId }: { reelId: string }) => {
+  const router = useRouter();
+  const utils = api.useUtils();
+  const deleteReel = api.reels.delete.useMutation({
+    onSuccess: async () => {
+      await Promise.all([
+        utils.reels.playback.invalidate({ reelId }),
+        utils.reels.feed.invalidate(),
+      ]);
+      router.push(paths.reelsFeedPage);
+    },
+  });
+
+  const confirmDelete = () => {
+    if (!window.confirm("Delete this reel? This cannot be undone.")) return;
+    deleteReel.mutate({ reelId });
+  };
+
+  return (
+    <div className="flex flex-col items-start gap-2">
+      <button
+        type="button"
+        onClick={confirmDelete}
+        disabled={deleteReel.isPending}
+        className="rounded-xl border border-red-400/60 px-4 py-2 text-red-300 disabled:opacity-50"
+      >
+        {deleteReel.isPending ? "Deleting…" : "Delete reel"}
+      </button>
+      {deleteReel.error && (
+        <p className="text-sm text-red-400">{deleteReel.error.message}</p>
+      )}
+    </div>
+  );
+};
+
+export default DeleteReelButton;
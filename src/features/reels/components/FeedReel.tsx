@@ -0,0 +1,86 @@
+"use client";
+import { useEffect, useRef } from "react";
+import MuxPlayer, { type MuxPlayerRefAttributes } from "@mux/mux-player-react";
+import { env } from "@/env";
+import { useReelPlayback } from "../hooks/useReelPlayback";
+import { useViewTracking } from "../hooks/useViewTracking";
+import type { ReelFeedItem } from "../types";
+
+/**
+ * One full-screen reel in the feed. The player is only mounted near the
+ * visible reel, further away the signed thumbnail stands in for it.
+ */
+const FeedReel = ({
+  reel,
+  active,
+  nearby,
+  viewerId,
+}: {
+  reel: ReelFeedItem;
+  /** The reel in view, which plays while the others are paused */
+  active: boolean;
+  /** Within one swipe of the reel in view */
+  nearby: boolean;
+  viewerId?: string;
+}) => {
+  const playerRef = useRef<MuxPlayerRefAttributes>(null);
+  const { data: playback = reel.playback } = useReelPlayback(reel.id, {
+    initial: reel.playback,
+    enabled: nearby,
+  });
+  const tracking = useViewTracking(reel.id);
+
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    if (active) {
+      // Browsers may refuse to autoplay, the viewer can still tap play
+      player.play()?.catch(() => undefined);
+    } else {
+      player.pause();
+    }
+  }, [active, nearby]);
+
+  return (
+    <section className="relative flex h-screen w-full snap-start items-center justify-center bg-black">
+      {nearby ? (
+        <MuxPlayer
+          ref={playerRef}
+          className="h-full w-full"
+          playbackId={playback.playbackId}
+          tokens={playback.tokens}
+          streamType="on-demand"
+          loop
+          muted
+          {...tracking}
+          envKey={env.NEXT_PUBLIC_MUX_DATA_ENV_KEY}
+          metadata={{
+            video_id: reel.id,
+            video_title: reel.caption ?? undefined,
+            viewer_user_id: viewerId,
+          }}
+        />
+      ) : (
+        <div
+          className="h-full w-full bg-cover bg-center"
+          style={{ backgroundImage: `url(${playback.urls.thumbnail})` }}
+        />
+      )}
+
+      <div className="pointer-events-none absolute right-4 bottom-20 left-4 text-white drop-shadow">
+        {reel.creator.name && (
+          <p className="font-semibold">{reel.creator.name}</p>
+        )}
+        {reel.caption && <p>{reel.caption}</p>}
+        {reel.hashtags.length > 0 && (
+          <p className="text-purple-200">
+            {reel.hashtags.map((tag) => `#${tag}`).join(" ")}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default FeedReel;
@@ -0,0 +1,112 @@
+"use client";
+import Link from "next/link";
+import { buildPath } from "@/features/auth";
+import { paths } from "@/config/routes";
+import { api } from "@/trpc/react";
+import type { ReelStats } from "../types";
+
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+/**
+ * Share of views still watching across the reel, one bar per part
+ */
+const RetentionCurve = ({
+  retention,
+}: {
+  retention: ReelStats["retention"];
+}) => (
+  <div
+    className="flex h-10 w-40 items-end gap-px"
+    aria-label={`Retention: ${retention.map(formatPercent).join(", ")}`}
+  >
+    {retention.map((share, i) => (
+      <div
+        key={i}
+        className="flex-1 rounded-t-sm bg-purple-400"
+        style={{ height: `${Math.max(share * 100, 2)}%` }}
+        title={formatPercent(share)}
+      />
+    ))}
+  </div>
+);
+
+/**
+ * Views, unique viewers, watch time and retention of the creator's reels
+ */
+const ReelAnalytics = () => {
+  const { data: stats, error, isLoading } = api.reels.stats.useQuery();
+
+  return (
+    <main className="flex min-h-screen flex-col items-center bg-gradient-to-b from-[#2e026d] to-[#15162c] text-white">
+      <div className="container flex flex-col items-center gap-12 px-4 py-16">
+        <h1 className="text-5xl font-extrabold tracking-tight sm:text-[5rem]">
+          Reel Analytics
+        </h1>
+
+        {error && <p className="text-lg text-red-400">{error.message}</p>}
+        {isLoading && <p className="text-lg">Loading stats...</p>}
+        {stats?.length === 0 && (
+          <p className="text-lg">
+            No reels yet.{" "}
+            <Link href={paths.reelsUploadPage} className="underline">
+              Upload your first one
+            </Link>
+          </p>
+        )}
+
+        {!!stats?.length && (
+          <div className="w-full overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="text-sm text-white/60">
+                <tr>
+                  <th className="px-3 py-2 font-normal">Reel</th>
+                  <th className="px-3 py-2 font-normal">Views</th>
+                  <th className="px-3 py-2 font-normal">Unique viewers</th>
+                  <th className="px-3 py-2 font-normal">Avg. watch time</th>
+                  <th className="px-3 py-2 font-normal">Completion</th>
+                  <th className="px-3 py-2 font-normal">Retention</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map((reel) => (
+                  <tr key={reel.reelId} className="border-t border-white/10">
+                    <td className="max-w-xs truncate px-3 py-2">
+                      <Link
+                        href={buildPath(paths.reelPage, {
+                          reelId: reel.reelId,
+                        })}
+                        className="hover:underline"
+                      >
+                        {reel.caption ?? "Untitled reel"}
+                      </Link>
+                      <p className="text-sm text-white/60">
+                        {reel.publishedAt
+                          ? reel.publishedAt.toLocaleDateString()
+                          : "Draft"}
+                      </p>
+                    </td>
+                    <td className="px-3 py-2">{reel.views}</td>
+                    <td className="px-3 py-2">{reel.uniqueViewers}</td>
+                    <td className="px-3 py-2">
+                      {formatSeconds(reel.averageWatchSeconds)}
+                    </td>
+                    <td className="px-3 py-2">
+                      {formatPercent(reel.completionRate)}
+                    </td>
+                    <td className="px-3 py-2">
+                      <RetentionCurve retention={reel.retention} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default ReelAnalytics;
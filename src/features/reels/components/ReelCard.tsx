@@ -0,0 +1,30 @@
+"use client";
+import { useState } from "react";
+import Link from "next/link";
+import { buildPath } from "@/features/auth";
+import { paths } from "@/config/routes";
+import type { ReelFeedItem } from "../types";
+
+/**
+ * A reel in a grid or search results: its chosen cover, swapped for
+ * a short animated preview while hovered or focused
+ */
+const ReelCard = ({ reel }: { reel: ReelFeedItem }) => {
+  const [previewing, setPreviewing] = useState(false);
+  const { thumbnail, preview } = reel.playback.urls;
+
+  return (
+    <Link
+      href={buildPath(paths.reelPage, { reelId: reel.id })}
+      className="block aspect-[9/16] overflow-hidden rounded-xl bg-white/10 bg-cover bg-center"
+      style={{ backgroundImage: `url(${previewing ? preview : thumbnail})` }}
+      aria-label={reel.caption ?? "Reel"}
+      onMouseEnter={() => setPreviewing(true)}
+      onMouseLeave={() => setPreviewing(false)}
+      onFocus={() => setPreviewing(true)}
+      onBlur={() => setPreviewing(false)}
+    />
+  );
+};
+
+export default ReelCard;
@@ -0,0 +1,143 @@
+"use client";
+import { useState, type FormEvent } from "react";
+import { api } from "@/trpc/react";
+import {
+  REEL_CAPTION_MAX_LENGTH,
+  ReelMetadataSchema,
+  reelVisibilities,
+  type ReelMetadata,
+} from "../types";
+import CoverPicker from "./CoverPicker";
+
+type FieldErrors = Partial<Record<keyof ReelMetadata, string[]>>;
+
+const visibilityLabels: Record<ReelMetadata["visibility"], string> = {
+  PUBLIC: "Everyone",
+  FOLLOWERS: "Followers",
+  SUBSCRIBERS: "Subscribers",
+  PRIVATE: "Only me",
+};
+
+const inputClassName =
+  "w-full rounded-xl border border-white/20 bg-white/10 px-4 py-3 text-white placeholder-white/50 focus:border-purple-400 focus:outline-none";
+
+/**
+ * Caption, hashtags, visibility and cover frame of a reel, validated
+ * with `ReelMetadataSchema` before they are saved
+ */
+const ReelDetailsForm = ({
+  reelId,
+  initial,
+  onSaved,
+}: {
+  reelId: string;
+  initial?: ReelMetadata;
+  onSaved: (metadata: ReelMetadata) => void;
+}) => {
+  const [caption, setCaption] = useState(initial?.caption ?? "");
+  const [hashtags, setHashtags] = useState(
+    initial?.hashtags.map((tag) => `#${tag}`).join(" ") ?? "",
+  );
+  const [visibility, setVisibility] = useState<ReelMetadata["visibility"]>(
+    initial?.visibility ?? "PUBLIC",
+  );
+  const [coverTime, setCoverTime] = useState(initial?.coverTime);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const update = api.reels.update.useMutation();
+
+  const onSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    const parsed = ReelMetadataSchema.safeParse({
+      caption: caption || null,
+      hashtags: hashtags.split(/[\s,]+/).filter(Boolean),
+      visibility,
+      coverTime,
+    });
+    if (!parsed.success) {
+      setErrors(parsed.error.flatten().fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    update.mutate(
+      { reelId, ...parsed.data },
+      { onSuccess: () => onSaved(parsed.data) },
+    );
+  };
+
+  return (
+    <form className="flex w-full max-w-md flex-col gap-5" onSubmit={onSubmit}>
+      <label className="flex flex-col gap-2">
+        <span className="font-semibold">Caption</span>
+        <textarea
+          className={inputClassName}
+          rows={3}
+          maxLength={REEL_CAPTION_MAX_LENGTH}
+          value={caption}
+          onChange={(e) => setCaption(e.target.value)}
+          placeholder="Say something about your reel"
+        />
+        {errors.caption && (
+          <span className="text-sm text-red-400">{errors.caption[0]}</span>
+        )}
+      </label>
+
+      <label className="flex flex-col gap-2">
+        <span className="font-semibold">Hashtags</span>
+        <input
+          className={inputClassName}
+          value={hashtags}
+          onChange={(e) => setHashtags(e.target.value)}
+          placeholder="#travel #food"
+        />
+        {errors.hashtags && (
+          <span className="text-sm text-red-400">{errors.hashtags[0]}</span>
+        )}
+      </label>
+
+      <label className="flex flex-col gap-2">
+        <span className="font-semibold">Who can watch</span>
+        <select
+          className={inputClassName}
+          value={visibility}
+          onChange={(e) =>
+            setVisibility(e.target.value as ReelMetadata["visibility"])
+          }
+        >
+          {reelVisibilities.map((value) => (
+            <option key={value} value={value} className="text-black">
+              {visibilityLabels[value]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex flex-col gap-2">
+        <span className="font-semibold">Cover</span>
+        <CoverPicker
+          reelId={reelId}
+          value={coverTime}
+          onChange={setCoverTime}
+        />
+        {errors.coverTime && (
+          <span className="text-sm text-red-400">{errors.coverTime[0]}</span>
+        )}
+      </div>
+
+      {update.error && (
+        <p className="text-sm text-red-400">{update.error.message}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={update.isPending}
+        className="rounded-xl bg-gradient-to-r from-indigo-500 to-purple-500 px-6 py-3 font-semibold shadow-lg disabled:opacity-50"
+      >
+        {update.isPending ? "Saving…" : "Next"}
+      </button>
+    </form>
+  );
+};
+
+export default ReelDetailsForm;
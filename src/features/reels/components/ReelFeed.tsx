@@ -0,0 +1,115 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { api } from "@/trpc/react";
+import type { ReelFeedMode } from "../types";
+import FeedReel from "./FeedReel";
+
+// Reels ahead of the visible one whose thumbnails are preloaded,
+// the next page is fetched once the viewer gets this close to the end
+const PRELOAD_AHEAD = 2;
+
+/**
+ * Full-screen vertical feed of reels, one per swipe. The visible reel
+ * autoplays, the others are paused.
+ */
+const ReelFeed = ({
+  mode,
+  viewerId,
+}: {
+  mode: ReelFeedMode;
+  viewerId?: string;
+}) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const feed = api.reels.feed.useInfiniteQuery(
+    { mode },
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      refetchOnWindowFocus: false,
+    },
+  );
+  const reels = feed.data?.pages.flatMap((page) => page.reels) ?? [];
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = feed;
+
+  // Follow which reel fills most of the screen
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) {
+            setActiveIndex(Number((entry.target as HTMLElement).dataset.index));
+          }
+        }
+      },
+      { root: container, threshold: 0.6 },
+    );
+    for (const child of container.children) observer.observe(child);
+
+    return () => observer.disconnect();
+  }, [reels.length]);
+
+  useEffect(() => {
+    if (
+      activeIndex >= reels.length - PRELOAD_AHEAD &&
+      hasNextPage &&
+      !isFetchingNextPage
+    ) {
+      void fetchNextPage();
+    }
+  }, [
+    activeIndex,
+    reels.length,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  ]);
+
+  // Warm the cache with the next thumbnails so swipes show them at once
+  useEffect(() => {
+    const upcoming = feed.data?.pages
+      .flatMap((page) => page.reels)
+      .slice(activeIndex + 1, activeIndex + 1 + PRELOAD_AHEAD);
+    for (const reel of upcoming ?? []) {
+      new Image().src = reel.playback.urls.thumbnail;
+    }
+  }, [activeIndex, feed.data]);
+
+  if (feed.error) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-black text-white">
+        <p className="text-lg text-red-400">{feed.error.message}</p>
+      </div>
+    );
+  }
+
+  if (!feed.isPending && reels.length === 0) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-black text-white">
+        <p className="text-lg text-white/70">No reels yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="h-screen w-full snap-y snap-mandatory overflow-y-scroll bg-black"
+    >
+      {reels.map((reel, index) => (
+        <div key={reel.id} data-index={index}>
+          <FeedReel
+            reel={reel}
+            active={index === activeIndex}
+            nearby={Math.abs(index - activeIndex) <= 1}
+            viewerId={viewerId}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReelFeed;
@@ -0,0 +1,53 @@
+"use client";
+import MuxPlayer from "@mux/mux-player-react";
+import { env } from "@/env";
+import { useReelPlayback } from "../hooks/useReelPlayback";
+import { useViewTracking } from "../hooks/useViewTracking";
+
+/**
+ * Plays a reel with playback tokens signed for the viewer, fetching
+ * new tokens before the current ones expire
+ */
+const ReelPlayer = ({
+  reelId,
+  title,
+  viewerId,
+}: {
+  reelId: string;
+  title?: string;
+  /** Signed in viewer, reported to Mux Data */
+  viewerId?: string;
+}) => {
+  const { data: playback, error } = useReelPlayback(reelId);
+  const tracking = useViewTracking(reelId);
+
+  if (error) {
+    return <p className="text-lg text-red-400">{error.message}</p>;
+  }
+
+  if (!playback) {
+    return (
+      <div className="aspect-[9/16] w-full max-w-sm animate-pulse rounded-xl bg-white/10" />
+    );
+  }
+
+  return (
+    <MuxPlayer
+      className="aspect-[9/16] w-full max-w-sm overflow-hidden rounded-xl"
+      playbackId={playback.playbackId}
+      tokens={playback.tokens}
+      streamType="on-demand"
+      // Generated captions come with the stream, selectable from the captions menu
+      defaultHiddenCaptions={false}
+      {...tracking}
+      envKey={env.NEXT_PUBLIC_MUX_DATA_ENV_KEY}
+      metadata={{
+        video_id: reelId,
+        video_title: title,
+        viewer_user_id: viewerId,
+      }}
+    />
+  );
+};
+
+export default ReelPlayer;
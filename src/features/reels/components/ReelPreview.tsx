@@ -0,0 +1,135 @@
+"use client";
+import { useState } from "react";
+import MuxPlayer from "@mux/mux-player-react";
+import { api } from "@/trpc/react";
+import type { ReelMetadata } from "../types";
+
+export type ReelPreviewPlayback = {
+  playbackId?: string;
+  playbackToken?: string;
+};
+
+export type ReelPublishOutcome =
+  | { state: "draft" }
+  | { state: "published" }
+  | { state: "scheduled"; publishAt: Date };
+
+/**
+ * Shows a reel as it will appear, then saves it as a draft,
+ * publishes it now or schedules it
+ */
+const ReelPreview = ({
+  reelId,
+  metadata,
+  playback,
+  onBack,
+  onDone,
+}: {
+  reelId: string;
+  metadata: ReelMetadata;
+  /** Unset while Mux is still processing the reel */
+  playback?: ReelPreviewPlayback;
+  onBack: () => void;
+  onDone: (outcome: ReelPublishOutcome) => void;
+}) => {
+  const [publishAt, setPublishAt] = useState("");
+  const publish = api.reels.publish.useMutation();
+  const unpublish = api.reels.unpublish.useMutation();
+  const isPending = publish.isPending || unpublish.isPending;
+  const error = publish.error ?? unpublish.error;
+
+  const saveDraft = () =>
+    unpublish.mutate(
+      { reelId },
+      { onSuccess: () => onDone({ state: "draft" }) },
+    );
+
+  const publishNow = () =>
+    publish.mutate(
+      { reelId },
+      { onSuccess: () => onDone({ state: "published" }) },
+    );
+
+  const schedule = () => {
+    const date = new Date(publishAt);
+    publish.mutate(
+      { reelId, publishAt: date },
+      { onSuccess: () => onDone({ state: "scheduled", publishAt: date }) },
+    );
+  };
+
+  return (
+    <div className="flex w-full max-w-md flex-col items-center gap-5">
+      {playback?.playbackId ? (
+        <MuxPlayer
+          className="aspect-[9/16] w-72 overflow-hidden rounded-xl"
+          playbackId={playback.playbackId}
+          tokens={{ playback: playback.playbackToken }}
+          streamType="on-demand"
+          startTime={metadata.coverTime}
+        />
+      ) : (
+        <div className="flex aspect-[9/16] w-72 items-center justify-center rounded-xl bg-white/10 text-white/70">
+          Processing…
+        </div>
+      )}
+
+      <div className="w-full">
+        {metadata.caption && <p className="text-lg">{metadata.caption}</p>}
+        {metadata.hashtags.length > 0 && (
+          <p className="text-purple-300">
+            {metadata.hashtags.map((tag) => `#${tag}`).join(" ")}
+          </p>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error.message}</p>}
+
+      <div className="flex w-full gap-3">
+        <button
+          type="button"
+          onClick={onBack}
+          disabled={isPending}
+          className="flex-1 rounded-xl border border-white/20 px-4 py-3 disabled:opacity-50"
+        >
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={saveDraft}
+          disabled={isPending}
+          className="flex-1 rounded-xl border border-white/20 px-4 py-3 disabled:opacity-50"
+        >
+          Save draft
+        </button>
+        <button
+          type="button"
+          onClick={publishNow}
+          disabled={isPending}
+          className="flex-1 rounded-xl bg-gradient-to-r from-indigo-500 to-purple-500 px-4 py-3 font-semibold disabled:opacity-50"
+        >
+          Publish
+        </button>
+      </div>
+
+      <div className="flex w-full gap-3">
+        <input
+          type="datetime-local"
+          className="flex-1 rounded-xl border border-white/20 bg-white/10 px-4 py-3 text-white"
+          value={publishAt}
+          onChange={(e) => setPublishAt(e.target.value)}
+        />
+        <button
+          type="button"
+          onClick={schedule}
+          disabled={isPending || !publishAt}
+          className="rounded-xl border border-white/20 px-4 py-3 disabled:opacity-50"
+        >
+          Schedule
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReelPreview;
@@ -1,7 +1,124 @@
 "use client";
+import { useState } from "react";
 import MuxUploader from "@mux/mux-uploader-react";
+import { useSSE } from "@/features/realtime";
+import type { SSEEventPayload } from "@/lib/sse/events";
+import { cancelUpload, getUploadUrl } from "../actions/reel-actions";
+import {
+  reelCaptionLanguages,
+  type ReelCaptionLanguage,
+  type ReelMetadata,
+} from "../types";
+import ReelDetailsForm from "./ReelDetailsForm";
+import ReelPreview, { type ReelPublishOutcome } from "./ReelPreview";
+
+type UploadState =
+  | { status: "idle" | "uploading" | "processing" }
+  | { status: "ready"; playbackId?: string; playbackToken?: string }
+  | { status: "errored"; errorMessage: string };
+
+/**
+ * Steps of the upload flow: upload, details, preview, then done
+ * once the reel is published, scheduled or saved as a draft
+ */
+type Step =
+  | { step: "upload" }
+  | { step: "details"; metadata?: ReelMetadata }
+  | { step: "preview"; metadata: ReelMetadata }
+  | { step: "done"; outcome: ReelPublishOutcome };
+
+const statusMessages: Record<UploadState["status"], string | null> = {
+  idle: null,
+  uploading: "Uploading…",
+  processing: "Processing your reel, this can take a minute…",
+  ready: "Your reel is ready",
+  errored: null,
+};
+
+const toUploadState = ({
+  status,
+  playbackId,
+  playbackToken,
+  errorMessage,
+}: SSEEventPayload<"reel-status">): UploadState => {
+  if (status === "ready") return { status, playbackId, playbackToken };
+  if (status === "errored") {
+    return { status, errorMessage: errorMessage ?? "Processing failed" };
+  }
+  return { status };
+};
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+const outcomeMessage = (outcome: ReelPublishOutcome) => {
+  switch (outcome.state) {
+    case "published":
+      return "Your reel is published";
+    case "scheduled":
+      return `Your reel will be published ${outcome.publishAt.toLocaleString()}`;
+    case "draft":
+      return "Your reel was saved as a draft";
+  }
+};
+
+/**
+ * Uploads a reel to Mux, then collects its details, previews it and
+ * publishes it. Processing is followed over SSE, so this must be
+ * rendered inside an `SSEProvider`.
+ */
+const UploadReel = () => {
+  const [state, setState] = useState<UploadState>({ status: "idle" });
+  const [step, setStep] = useState<Step>({ step: "upload" });
+  const [captionLanguage, setCaptionLanguage] =
+    useState<ReelCaptionLanguage | null>("en");
+  const [upload, setUpload] = useState<{ reelId: string; uploadId: string }>();
+
+  // Mux reports progress through webhooks, pushed here for this upload only
+  useSSE("reel-status", (payload) => {
+    if (payload.uploadId === upload?.uploadId) {
+      setState(toUploadState(payload));
+    }
+  });
+
+  // The upload URL is only requested once the creator picks a file, so
+  // their caption language goes with it and the quota is not spent early
+  const createUpload = async () => {
+    const result = await getUploadUrl({ captionLanguage }).catch(() => null);
+    if (!result?.uploadUrl) {
+      const errorMessage = result?.error ?? "Could not start the upload";
+      setState({ status: "errored", errorMessage });
+      throw new Error(errorMessage);
+    }
+
+    setUpload({ reelId: result.reelId, uploadId: result.uploadId });
+    return result.uploadUrl;
+  };
+
+  // The webhook may already have moved the reel on by the time the
+  // transfer finishes, so only move forward from uploading
+  const onUploaded = () => {
+    setState((prev) =>
+      prev.status === "uploading" ? { status: "processing" } : prev,
+    );
+    setStep({ step: "details" });
+  };
+
+  // Keep the reason if the upload was refused before it started. An upload
+  // that failed on the way is cancelled so it stops counting as pending.
+  const onUploadError = () => {
+    setState((prev) =>
+      prev.status === "errored"
+        ? prev
+        : { status: "errored", errorMessage: "Upload failed" },
+    );
+    if (upload) void cancelUpload(upload.uploadId).catch(() => undefined);
+  };
+
+  const message =
+    step.step === "done"
+      ? outcomeMessage(step.outcome)
+      : statusMessages[state.status];
 
-const UploadReel = ({ uploadUrl }: { uploadUrl: string }) => {
   return (
     <main className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-b from-[#2e026d] to-[#15162c] text-white">
       <div className="container flex flex-col items-center justify-center gap-12 px-4 py-16">
@@ -9,8 +126,71 @@ const UploadReel = ({ uploadUrl }: { uploadUrl: string }) => {
           Upload Reel
         </h1>
 
-        <div className="flex flex-col items-center justify-center gap-4">
-          <MuxUploader type="radial" endpoint={uploadUrl} />
+        <div className="flex w-full flex-col items-center justify-center gap-4">
+          {step.step === "upload" && (
+            <>
+              <label className="flex items-center gap-3">
+                <span>Captions</span>
+                <select
+                  className="rounded-xl border border-white/20 bg-white/10 px-4 py-2 text-white"
+                  value={captionLanguage ?? ""}
+                  disabled={
+                    state.status !== "idle" && state.status !== "errored"
+                  }
+                  onChange={(e) =>
+                    setCaptionLanguage(
+                      (e.target.value || null) as ReelCaptionLanguage | null,
+                    )
+                  }
+                >
+                  <option value="" className="text-black">
+                    None
+                  </option>
+                  {reelCaptionLanguages.map((language) => (
+                    <option
+                      key={language}
+                      value={language}
+                      className="text-black"
+                    >
+                      {languageNames.of(language)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <MuxUploader
+                type="radial"
+                endpoint={createUpload}
+                onUploadStart={() => setState({ status: "uploading" })}
+                onSuccess={onUploaded}
+                onUploadError={onUploadError}
+              />
+            </>
+          )}
+
+          {step.step === "details" && upload && (
+            <ReelDetailsForm
+              reelId={upload.reelId}
+              initial={step.metadata}
+              onSaved={(metadata) => setStep({ step: "preview", metadata })}
+            />
+          )}
+
+          {step.step === "preview" && upload && (
+            <ReelPreview
+              reelId={upload.reelId}
+              metadata={step.metadata}
+              playback={state.status === "ready" ? state : undefined}
+              onBack={() =>
+                setStep({ step: "details", metadata: step.metadata })
+              }
+              onDone={(outcome) => setStep({ step: "done", outcome })}
+            />
+          )}
+
+          {message && <p className="text-lg text-white/80">{message}</p>}
+          {state.status === "errored" && (
+            <p className="text-lg text-red-400">{state.errorMessage}</p>
+          )}
         </div>
       </div>
     </main>
@@ -0,0 +1,44 @@
+"use client";
+
+import { api } from "@/trpc/react";
+import type { ReelPlayback } from "../types";
+
+// Fetch new tokens this long before the current ones expire,
+// or soon after if they are already close to expiring
+const REFRESH_MARGIN_MS = 60_000;
+const MIN_REFRESH_INTERVAL_MS = 5_000;
+
+const msUntilRefresh = (playback: ReelPlayback) =>
+  Math.max(
+    playback.expiresAt - Date.now() - REFRESH_MARGIN_MS,
+    MIN_REFRESH_INTERVAL_MS,
+  );
+
+/**
+ * Signed playback for a reel, fetched again before its tokens expire
+ * for as long as the calling component is mounted.
+ *
+ * @param reelId - Reel to play
+ * @param options.initial - Playback signed elsewhere, e.g. in the feed, used until it needs refreshing
+ * @param options.enabled - Set to false to stop refreshing, e.g. while scrolled away
+ */
+export function useReelPlayback(
+  reelId: string,
+  {
+    initial,
+    enabled = true,
+  }: { initial?: ReelPlayback; enabled?: boolean } = {},
+) {
+  return api.reels.playback.useQuery(
+    { reelId },
+    {
+      initialData: initial,
+      enabled,
+      refetchOnWindowFocus: false,
+      staleTime: (query) =>
+        query.state.data ? msUntilRefresh(query.state.data) : 0,
+      refetchInterval: (query) =>
+        query.state.data ? msUntilRefresh(query.state.data) : false,
+    },
+  );
+}
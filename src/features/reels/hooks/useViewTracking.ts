@@ -0,0 +1,74 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import {
+  REEL_VIEW_HEARTBEAT_SECONDS,
+  REEL_VIEW_MIN_SECONDS,
+} from "@/config/reels";
+import { api } from "@/trpc/react";
+
+// Jumps between time updates longer than this are seeks, not watching
+const MAX_TICK_SECONDS = 2;
+
+const newSession = () => ({
+  id: crypto.randomUUID(),
+  watched: 0,
+  position: 0,
+  lastTime: 0,
+  reported: 0,
+  nextReport: REEL_VIEW_MIN_SECONDS,
+});
+
+/**
+ * Reports how long a reel is watched, for view counts and creator analytics.
+ * Only time actually played counts, seeking and looping back do not. Reports
+ * go out once the view can count, every heartbeat after that and whenever
+ * playback pauses or ends.
+ *
+ * @param reelId - Reel being played
+ * @returns Handlers for the player's `timeupdate`, `pause` and `ended` events
+ */
+export function useViewTracking(reelId: string) {
+  const { mutate } = api.reels.recordView.useMutation();
+  const session = useRef(newSession());
+
+  const report = useCallback(() => {
+    const current = session.current;
+    if (current.watched <= current.reported) return;
+
+    current.reported = current.watched;
+    mutate({
+      reelId,
+      sessionId: current.id,
+      watchedSeconds: current.watched,
+      position: current.position,
+    });
+  }, [reelId, mutate]);
+
+  // Each reel gets its own session, with whatever is unreported sent on the way out
+  useEffect(() => {
+    session.current = newSession();
+    return report;
+  }, [reelId, report]);
+
+  const onTimeUpdate = useCallback(
+    (event: Event) => {
+      const time = (event.currentTarget as HTMLMediaElement).currentTime;
+      const current = session.current;
+      const tick = time - current.lastTime;
+
+      current.lastTime = time;
+      if (tick <= 0 || tick > MAX_TICK_SECONDS) return;
+
+      current.watched += tick;
+      current.position = Math.max(current.position, time);
+      if (current.watched >= current.nextReport) {
+        current.nextReport = current.watched + REEL_VIEW_HEARTBEAT_SECONDS;
+        report();
+      }
+    },
+    [report],
+  );
+
+  return { onTimeUpdate, onPause: report, onEnded: report };
+}
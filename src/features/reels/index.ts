@@ -1,4 +1,26 @@
 export * from "./actions/reel-actions";
 
 import UploadReel from "./components/UploadReel";
-export { UploadReel };
+import ReelPlayer from "./components/ReelPlayer";
+import ReelFeed from "./components/ReelFeed";
+import DeleteReelButton from "./components/DeleteReelButton";
+import ReelCard from "./components/ReelCard";
+import CreatorReels from "./components/CreatorReels";
+import ReelAnalytics from "./components/ReelAnalytics";
+export {
+  UploadReel,
+  ReelPlayer,
+  ReelFeed,
+  DeleteReelButton,
+  ReelCard,
+  CreatorReels,
+  ReelAnalytics,
+};
+
+export { reelService } from "./services/reel-service";
+export { reelPlaybackService } from "./services/playback-service";
+export { reelFeedService } from "./services/feed-service";
+export { reelReconciliationService } from "./services/reconciliation-service";
+export { reelAnalyticsService } from "./services/analytics-service";
+export { reelsRouter } from "./trpc/router";
+export * from "./types";
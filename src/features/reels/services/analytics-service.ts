@@ -0,0 +1,288 @@
+import {
+  REEL_COMPLETION_RATIO,
+  REEL_RETENTION_BUCKETS,
+  REEL_VIEW_DEDUP_WINDOW_SECONDS,
+  REEL_VIEW_HEARTBEAT_SECONDS,
+  REEL_VIEW_MIN_SECONDS,
+  REEL_VIEW_SESSION_TTL_SECONDS,
+} from "@/config/reels";
+import { db } from "@/lib/db";
+import { getRedis } from "@/lib/redis";
+import { createServiceContext } from "@/utils/service-utils";
+import { reelPlaybackService } from "./playback-service";
+import type { RecordViewInput, ReelStats, ReelViewerIdentity } from "../types";
+
+const { log, handleError } = createServiceContext("ReelAnalyticsService");
+
+/**
+ * What a report changed, from `UPDATE_SESSION_SCRIPT`
+ */
+type SessionUpdate = {
+  view: "pending" | "counted" | "ignored";
+  /** 1 if this report counted the view */
+  views: number;
+  /** Watch time to roll up, all of it once the view counts */
+  watchSeconds: number;
+  /** 1 if this report completed the view */
+  completions: number;
+  /** Retention buckets this report reached, from the first up to the last */
+  fromBucket: number;
+  toBucket: number;
+};
+
+/**
+ * Applies a report to a viewing session in one step, so overlapping reports
+ * from a player cannot overwrite each other. The session is a hash holding
+ * `duration`, `watched`, `position`, `buckets`, `completed`, `view` and
+ * `reportedAt`, the time of the previous report in milliseconds. The view
+ * is counted, or ignored as a repeat, by the first report to reach the
+ * minimum watch time, with `SET NX` on the viewer's dedup key.
+ *
+ * KEYS: session, dedup
+ * ARGV: watched seconds, position, now, heartbeat, minimum seconds, session
+ * TTL, dedup window, retention buckets, completion ratio, then the duration
+ * and initial view to start a missing session with, or empty strings
+ *
+ * Returns nil if the session is missing and no start was given, otherwise
+ * the fields of `SessionUpdate` in order, as strings to keep fractions
+ */
+const UPDATE_SESSION_SCRIPT = `
+local key, dedup = KEYS[1], KEYS[2]
+if redis.call("EXISTS", key) == 0 then
+  if ARGV[10] == "" then return nil end
+  redis.call("HSET", key, "duration", ARGV[10], "watched", 0, "position", 0,
+    "buckets", 0, "completed", 0, "view", ARGV[11], "reportedAt", ARGV[3])
+end
+
+local fields = redis.call("HGETALL", key)
+local session = {}
+for i = 1, #fields, 2 do session[fields[i]] = fields[i + 1] end
+
+local duration = tonumber(session.duration)
+local watched = tonumber(session.watched)
+local position = tonumber(session.position)
+local buckets = tonumber(session.buckets)
+local completed = tonumber(session.completed)
+local view = session.view
+local now = tonumber(ARGV[3])
+
+local allowed = (now - tonumber(session.reportedAt)) / 1000 + tonumber(ARGV[4])
+local delta = math.min(math.max(tonumber(ARGV[1]) - watched, 0), allowed)
+watched = watched + delta
+position = math.max(position, math.min(tonumber(ARGV[2]), duration))
+
+local views, watchSeconds, completions = 0, 0, 0
+if view == "counted" then watchSeconds = delta end
+if view == "pending" and watched >= math.min(tonumber(ARGV[5]), duration) then
+  if redis.call("SET", dedup, 1, "NX", "EX", ARGV[7]) then
+    view = "counted"
+    views = 1
+    watchSeconds = watched
+  else
+    view = "ignored"
+  end
+end
+
+local fromBucket, toBucket = buckets, buckets
+if view == "counted" and duration > 0 then
+  local total = tonumber(ARGV[8])
+  toBucket = math.max(buckets,
+    math.min(math.floor(position / duration * total) + 1, total))
+  if completed == 0 and position >= duration * tonumber(ARGV[9]) then
+    completed = 1
+    completions = 1
+  end
+end
+
+redis.call("HSET", key, "watched", tostring(watched),
+  "position", tostring(position), "buckets", toBucket,
+  "completed", completed, "view", view, "reportedAt", ARGV[3])
+redis.call("EXPIRE", key, ARGV[6])
+
+return { view, tostring(views), tostring(watchSeconds), tostring(completions),
+  tostring(fromBucket), tostring(toBucket) }
+`;
+
+const sessionKey = (reelId: string, sessionId: string) =>
+  `reels:watch:${reelId}:${sessionId}`;
+
+const dedupKey = (reelId: string, viewerKey: string) =>
+  `reels:view:${reelId}:${viewerKey}`;
+
+/**
+ * Start of the current UTC day, the rollup row views are added to
+ */
+const today = () => new Date(new Date().toISOString().slice(0, 10));
+
+/**
+ * Runs `UPDATE_SESSION_SCRIPT` for a report
+ * @param start - Duration and initial view to start the session with if it is missing
+ * @returns What the report changed, or null if the session is missing and no start was given
+ */
+const updateSession = async (
+  viewer: ReelViewerIdentity,
+  { reelId, sessionId, watchedSeconds, position }: RecordViewInput,
+  start?: { duration: number; view: SessionUpdate["view"] },
+): Promise<SessionUpdate | null> => {
+  const redis = await getRedis();
+  const result = (await redis.eval(
+    UPDATE_SESSION_SCRIPT,
+    [sessionKey(reelId, sessionId), dedupKey(reelId, viewer.key)],
+    [
+      watchedSeconds,
+      position,
+      Date.now(),
+      REEL_VIEW_HEARTBEAT_SECONDS,
+      REEL_VIEW_MIN_SECONDS,
+      REEL_VIEW_SESSION_TTL_SECONDS,
+      REEL_VIEW_DEDUP_WINDOW_SECONDS,
+      REEL_RETENTION_BUCKETS,
+      REEL_COMPLETION_RATIO,
+      start?.duration ?? "",
+      start?.view ?? "",
+    ],
+  )) as string[] | null;
+  if (!result) return null;
+
+  const [view, views, watchSeconds, completions, fromBucket, toBucket] = result;
+  return {
+    view: view as SessionUpdate["view"],
+    views: Number(views),
+    watchSeconds: Number(watchSeconds),
+    completions: Number(completions),
+    fromBucket: Number(fromBucket),
+    toBucket: Number(toBucket),
+  };
+};
+
+/**
+ * Service counting reel views and rolling up watch time for creators
+ */
+export const reelAnalyticsService = {
+  /**
+   * Records a watch time report from a player. A session's view counts once
+   * it has watched `REEL_VIEW_MIN_SECONDS`, and only if the viewer has not
+   * been counted for the reel within `REEL_VIEW_DEDUP_WINDOW_SECONDS`. Watch
+   * time, completion and retention are only rolled up for counted views, so
+   * they stay per view. Reports may claim at most the time since the
+   * previous one plus a heartbeat.
+   * @param viewer - Who is watching
+   * @param input - Session and watch time so far
+   * @returns Whether the session's view is counted, or null if the viewer may not watch the reel
+   */
+  recordView: async (
+    viewer: ReelViewerIdentity,
+    input: RecordViewInput,
+  ): Promise<{ counted: boolean } | null> => {
+    const { reelId, sessionId } = input;
+    try {
+      let update = await updateSession(viewer, input);
+      if (!update) {
+        // The first report of a session checks the viewer may watch the reel
+        const reel = await reelPlaybackService.getViewableReel(
+          reelId,
+          viewer.userId,
+        );
+        if (!reel) return null;
+
+        update = await updateSession(viewer, input, {
+          duration: reel.duration ?? 0,
+          // Creators watching their own reels are not counted
+          view: viewer.userId === reel.userId ? "ignored" : "pending",
+        });
+        if (!update) return null;
+      }
+
+      const { views, watchSeconds, completions, fromBucket, toBucket } = update;
+      if (views) {
+        await db.reelViewer.createMany({
+          data: [{ reelId, viewerKey: viewer.key }],
+          skipDuplicates: true,
+        });
+      }
+
+      if (toBucket > fromBucket) {
+        await db.$transaction(
+          Array.from({ length: toBucket - fromBucket }, (_, i) =>
+            db.reelRetention.upsert({
+              where: { reelId_bucket: { reelId, bucket: fromBucket + i } },
+              create: { reelId, bucket: fromBucket + i, viewers: 1 },
+              update: { viewers: { increment: 1 } },
+            }),
+          ),
+        );
+      }
+
+      if (views || watchSeconds || completions) {
+        const day = today();
+        await db.reelDailyStats.upsert({
+          where: { reelId_day: { reelId, day } },
+          create: { reelId, day, views, watchSeconds, completions },
+          update: {
+            views: { increment: views },
+            watchSeconds: { increment: watchSeconds },
+            completions: { increment: completions },
+          },
+        });
+      }
+
+      if (views) log.debug("view counted", { reelId, sessionId });
+      return { counted: update.view === "counted" };
+    } catch (error) {
+      return handleError("record reel view", error);
+    }
+  },
+
+  /**
+   * Rolls up the stats of a creator's reels, newest first
+   * @param userId - Creator
+   * @returns {ReelStats[]} Stats of every reel that is not deleted
+   */
+  getCreatorStats: async (userId: string): Promise<ReelStats[]> => {
+    try {
+      const reels = await db.reel.findMany({
+        where: { userId, status: { not: "DELETED" } },
+        select: {
+          id: true,
+          caption: true,
+          publishedAt: true,
+          retention: { select: { bucket: true, viewers: true } },
+          _count: { select: { viewers: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      const totals = await db.reelDailyStats.groupBy({
+        by: ["reelId"],
+        where: { reelId: { in: reels.map((reel) => reel.id) } },
+        _sum: { views: true, watchSeconds: true, completions: true },
+      });
+      const totalsByReel = new Map(
+        totals.map(({ reelId, _sum }) => [reelId, _sum]),
+      );
+
+      return reels.map((reel) => {
+        const sum = totalsByReel.get(reel.id);
+        const views = sum?.views ?? 0;
+        const viewersByBucket = new Map(
+          reel.retention.map(({ bucket, viewers }) => [bucket, viewers]),
+        );
+
+        return {
+          reelId: reel.id,
+          caption: reel.caption,
+          publishedAt: reel.publishedAt,
+          views,
+          uniqueViewers: reel._count.viewers,
+          averageWatchSeconds: views ? (sum?.watchSeconds ?? 0) / views : 0,
+          completionRate: views ? (sum?.completions ?? 0) / views : 0,
+          retention: Array.from({ length: REEL_RETENTION_BUCKETS }, (_, i) =>
+            views ? (viewersByBucket.get(i) ?? 0) / views : 0,
+          ),
+        };
+      });
+    } catch (error) {
+      return handleError("load reel stats", error);
+    }
+  },
+};
@@ -0,0 +1,143 @@
+import type { Track } from "@mux/mux-node/resources/video/assets";
+import { MuxWebhookRetryError } from "@/features/mux";
+import { db } from "@/lib/db";
+import { muxClient } from "@/lib/mux/client";
+import { createServiceContext } from "@/utils/service-utils";
+import { reelSearchIndexService } from "./search-index-service";
+
+const { log } = createServiceContext("ReelCaptionService");
+
+/**
+ * Track from a `video.asset.track.*` event, Mux adds the asset it belongs to
+ */
+type MuxTrackEventData = Track & { asset_id?: string };
+
+/**
+ * Reads the text of the cues of a WebVTT document, dropping the header,
+ * cue ids, timings, notes and markup
+ */
+const vttToText = (vtt: string): string =>
+  vtt
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+    .filter((block) => block.includes("-->"))
+    .flatMap((block) => {
+      const lines = block.split("\n");
+      const timing = lines.findIndex((line) => line.includes("-->"));
+      return lines.slice(timing + 1);
+    })
+    .map((line) => line.replace(/<[^>]+>/g, "").trim())
+    .filter((line, i, lines) => line && line !== lines[i - 1])
+    .join(" ");
+
+/**
+ * Caption fields read from a track, falling back to what the creator asked for
+ */
+const captionFields = (
+  track: MuxTrackEventData,
+  captionLanguage: string | null,
+) => ({
+  languageCode: track.language_code ?? captionLanguage ?? "und",
+  name: track.name ?? "Captions",
+});
+
+/**
+ * Finds the reel of a text track's asset. Track events can arrive before
+ * the asset events that link the reel to its asset, so a missing reel is
+ * thrown as retryable for Mux to deliver the event again once it is linked.
+ * @returns The reel, or null for tracks other than text tracks
+ */
+const findReel = async (track: MuxTrackEventData) => {
+  if (track.type !== "text" || !track.id) return null;
+  if (!track.asset_id) {
+    throw new Error(`Text track ${track.id} has no asset id`);
+  }
+
+  const reel = await db.reel.findFirst({ where: { assetId: track.asset_id } });
+  if (!reel) {
+    throw new MuxWebhookRetryError(
+      `No reel for asset ${track.asset_id} of text track ${track.id} yet`,
+    );
+  }
+  return reel;
+};
+
+/**
+ * Service for the caption tracks Mux generates for reels
+ */
+export const reelCaptionService = {
+  /**
+   * Stores a ready text track with its transcript and reindexes the reel,
+   * so it can be found by what is said in it. Errors are thrown so the
+   * webhook event is dead-lettered and can be replayed, or redelivered by
+   * Mux while the reel is not ready for its captions yet.
+   * @param track - Track from `video.asset.track.ready`
+   * @returns {boolean} true if a caption was stored
+   */
+  markReady: async (track: MuxTrackEventData): Promise<boolean> => {
+    const reel = await findReel(track);
+    if (!reel) return false;
+
+    const playbackId = reel.playbackIds[0];
+    if (!playbackId) {
+      throw new MuxWebhookRetryError(
+        `Reel ${reel.id} has no playback id for its captions yet`,
+      );
+    }
+
+    const vtt = await muxClient.getTextTrack(playbackId, track.id!);
+    const caption = {
+      ...captionFields(track, reel.captionLanguage),
+      status: "READY" as const,
+      vtt,
+      transcript: vttToText(vtt),
+    };
+    await db.reelCaption.upsert({
+      where: { trackId: track.id! },
+      create: { reelId: reel.id, trackId: track.id!, ...caption },
+      update: caption,
+    });
+
+    log.info("caption stored", { id: reel.id, trackId: track.id });
+    await reelSearchIndexService.index(reel);
+    return true;
+  },
+
+  /**
+   * Mux could not generate the track. Like `markReady`, throws for Mux to
+   * redeliver the event while the reel is not linked to its asset yet.
+   * @param track - Track from `video.asset.track.errored`
+   * @returns {boolean} true if the caption was recorded
+   */
+  markErrored: async (track: MuxTrackEventData): Promise<boolean> => {
+    const reel = await findReel(track);
+    if (!reel) return false;
+
+    const caption = {
+      ...captionFields(track, reel.captionLanguage),
+      status: "ERRORED" as const,
+    };
+    await db.reelCaption.upsert({
+      where: { trackId: track.id! },
+      create: { reelId: reel.id, trackId: track.id!, ...caption },
+      update: caption,
+    });
+
+    log.warn("caption generation failed", { id: reel.id, trackId: track.id });
+    return true;
+  },
+
+  /**
+   * The track was removed from the asset
+   * @param track - Track from `video.asset.track.deleted`
+   * @returns {boolean} true if a caption was removed
+   */
+  remove: async (track: MuxTrackEventData): Promise<boolean> => {
+    if (!track.id) return false;
+
+    const { count } = await db.reelCaption.deleteMany({
+      where: { trackId: track.id },
+    });
+    return count > 0;
+  },
+};
@@ -0,0 +1,59 @@
+import { MUX_PREVIEW_TOKEN_TTL_SECONDS } from "@/config/mux";
+import { db } from "@/lib/db";
+import { muxClient } from "@/lib/mux/client";
+import { createServiceContext } from "@/utils/service-utils";
+import type { ReelCoverFrames, ReelIdInput } from "../types";
+
+const { handleError } = createServiceContext("ReelCoverService");
+
+/**
+ * Service for picking the cover frame of a reel
+ */
+export const reelCoverService = {
+  /**
+   * Lists the storyboard frames of a reel for its creator to pick a cover
+   * from. The sprite is signed for as long as the upload preview.
+   * @param userId - Creator, only they may pick the cover
+   * @param input - Reel id
+   * @returns {ReelCoverFrames | null} The frames, or null if the user has no such reel
+   */
+  getFrames: async (
+    userId: string,
+    { reelId }: ReelIdInput,
+  ): Promise<ReelCoverFrames | null> => {
+    const reel = await db.reel.findFirst({
+      where: { id: reelId, userId, status: { not: "DELETED" } },
+      select: { status: true, playbackIds: true },
+    });
+    if (!reel) return null;
+
+    const playbackId = reel.playbackIds[0];
+    if (reel.status !== "READY" || !playbackId) return { status: "processing" };
+
+    try {
+      const token = await muxClient.signPlaybackToken(
+        playbackId,
+        MUX_PREVIEW_TOKEN_TTL_SECONDS,
+        "storyboard",
+      );
+      const storyboard = await muxClient.getStoryboard(playbackId, token);
+      const sprite = new URL(storyboard.url);
+      sprite.searchParams.set("token", token);
+
+      return {
+        status: "ready",
+        spriteUrl: sprite.toString(),
+        tileWidth: storyboard.tile_width,
+        tileHeight: storyboard.tile_height,
+        duration: storyboard.duration,
+        frames: storyboard.tiles.map(({ start, x, y }) => ({
+          time: start,
+          x,
+          y,
+        })),
+      };
+    } catch (error) {
+      return handleError("load cover frames", error);
+    }
+  },
+};
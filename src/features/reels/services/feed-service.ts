@@ -0,0 +1,71 @@
+import { db } from "@/lib/db";
+import { createServiceContext } from "@/utils/service-utils";
+import type { ReelFeedInput, ReelFeedItem } from "../types";
+import { reelPlaybackService } from "./playback-service";
+
+const { log } = createServiceContext("ReelFeedService");
+
+/**
+ * Service for browsing published reels
+ */
+export const reelFeedService = {
+  /**
+   * Lists the published reels a viewer may watch, newest first, each
+   * with its playback already signed. "forYou" covers every creator,
+   * "following" only creators the viewer follows.
+   * @param viewerId - Signed in viewer, required for "following"
+   * @param input - Mode, optional creator, cursor and page size
+   * @returns Reels and the cursor of the next page, if any
+   */
+  getFeed: async (
+    viewerId: string | undefined,
+    { mode, creatorId, cursor, limit }: ReelFeedInput,
+  ) => {
+    const items = await db.reel.findMany({
+      where: {
+        ...reelPlaybackService.viewableWhere(viewerId),
+        ...(mode === "following"
+          ? { user: { followers: { some: { followerId: viewerId } } } }
+          : {}),
+        ...(creatorId ? { userId: creatorId } : {}),
+      },
+      include: { user: { select: { id: true, name: true, image: true } } },
+      orderBy: [{ publishedAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = items.length > limit;
+    const page = hasMore ? items.slice(0, limit) : items;
+
+    // Signed up front so the client can preload the next reels
+    const signed = await Promise.all(
+      page.map(async (reel) => ({
+        reel,
+        playback: await reelPlaybackService.signPlayback(reel, viewerId),
+      })),
+    );
+
+    const reels = signed.flatMap(({ reel, playback }): ReelFeedItem[] => {
+      if (!playback) {
+        log.warn("skipping reel without playback", { id: reel.id });
+        return [];
+      }
+      return [
+        {
+          id: reel.id,
+          caption: reel.caption,
+          hashtags: reel.hashtags,
+          publishedAt: reel.publishedAt,
+          creator: reel.user,
+          playback,
+        },
+      ];
+    });
+
+    return {
+      reels,
+      nextCursor: hasMore ? page.at(-1)?.id : undefined,
+    };
+  },
+};
@@ -0,0 +1,252 @@
+import { type Prisma, type Reel } from "@prisma/client";
+import {
+  MUX_ANIMATED_PREVIEW_SECONDS,
+  MUX_ANIMATED_PREVIEW_WIDTH,
+  MUX_PLAYBACK_TOKEN_TTL_SECONDS,
+  MUX_SHARE_IMAGE_TTL_SECONDS,
+} from "@/config/mux";
+import { db } from "@/lib/db";
+import { muxClient } from "@/lib/mux/client";
+import { createServiceContext } from "@/utils/service-utils";
+import type { ReelPlayback } from "../types";
+
+const { log, handleError } = createServiceContext("ReelPlaybackService");
+
+// Claim identifying the viewer in every token, so a leaked URL can be traced
+const VIEWER_CLAIM = "viewer_id";
+const ANONYMOUS_VIEWER = "anonymous";
+
+type ReelAccess = Pick<Reel, "userId" | "visibility" | "publishedAt">;
+
+/**
+ * Service deciding who may watch a reel and signing playback for them
+ */
+export const reelPlaybackService = {
+  /**
+   * Checks a viewer's entitlement to a reel. The owner can always watch,
+   * everyone else only once it is published and if its visibility allows.
+   * @param reel - Owner, visibility and publish time of the reel
+   * @param viewerId - Signed in viewer, if any
+   * @returns {boolean} true if the viewer may watch
+   */
+  canView: async (reel: ReelAccess, viewerId?: string): Promise<boolean> => {
+    if (viewerId === reel.userId) return true;
+    if (!reel.publishedAt || reel.publishedAt > new Date()) return false;
+
+    switch (reel.visibility) {
+      case "PUBLIC":
+        return true;
+      case "FOLLOWERS":
+        if (!viewerId) return false;
+        return !!(await db.follow.findUnique({
+          where: {
+            followerId_followingId: {
+              followerId: viewerId,
+              followingId: reel.userId,
+            },
+          },
+        }));
+      case "SUBSCRIBERS":
+        if (!viewerId) return false;
+        return !!(await db.creatorSubscription.findFirst({
+          where: {
+            subscriberId: viewerId,
+            creatorId: reel.userId,
+            OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+          },
+        }));
+      case "PRIVATE":
+        return false;
+    }
+  },
+
+  /**
+   * Checks a user may follow a reel's realtime topic (`reel:<id>`). The
+   * owner can follow it while it processes, everyone else once they may watch it.
+   * @param reelId - Reel of the topic
+   * @param viewerId - Signed in user subscribing
+   * @returns {boolean} true if the user may subscribe
+   */
+  canFollow: async (reelId: string, viewerId: string): Promise<boolean> => {
+    const reel = await db.reel.findUnique({
+      where: { id: reelId },
+      select: {
+        userId: true,
+        status: true,
+        visibility: true,
+        publishedAt: true,
+      },
+    });
+    if (!reel || reel.status === "DELETED") return false;
+
+    return reelPlaybackService.canView(reel, viewerId);
+  },
+
+  /**
+   * Finds a playable reel the viewer may watch, with its creator's name
+   * @param reelId - Reel to watch
+   * @param viewerId - Signed in viewer, if any
+   * @returns The reel, or null if it is not playable or the viewer may not watch it
+   */
+  getViewableReel: async (reelId: string, viewerId?: string) => {
+    const reel = await db.reel.findUnique({
+      where: { id: reelId },
+      include: {
+        user: { select: { name: true } },
+        captions: {
+          where: { status: "READY" },
+          select: { languageCode: true, name: true, transcript: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+    if (!reel || reel.status !== "READY" || !reel.playbackIds[0]) return null;
+
+    if (!(await reelPlaybackService.canView(reel, viewerId))) {
+      log.info("playback denied", { reelId, viewerId });
+      return null;
+    }
+    return reel;
+  },
+
+  /**
+   * Signs a cover image for link previews of a public reel. Crawlers
+   * are anonymous, so it is only issued for reels anyone may watch.
+   * @param reel - Playback ids, cover frame and visibility of the reel
+   * @returns {string | null} The image URL, or null for non-public reels
+   */
+  getShareImageUrl: async (
+    reel: Pick<Reel, "playbackIds" | "coverTime" | "visibility">,
+  ): Promise<string | null> => {
+    const playbackId = reel.playbackIds[0];
+    if (!playbackId || reel.visibility !== "PUBLIC") return null;
+
+    return muxClient.getSignedThumbnailUrl(playbackId, {
+      time: reel.coverTime ?? 0,
+      width: 1200,
+      expiresInSeconds: MUX_SHARE_IMAGE_TTL_SECONDS,
+    });
+  },
+
+  /**
+   * Prisma filter for the published reels a viewer may watch, the query
+   * counterpart of `canView` for listing reels
+   * @param viewerId - Signed in viewer, if any
+   */
+  viewableWhere: (viewerId?: string): Prisma.ReelWhereInput => ({
+    status: "READY",
+    publishedAt: { lte: new Date() },
+    OR: [
+      { visibility: "PUBLIC" },
+      ...(viewerId
+        ? [
+            { userId: viewerId },
+            {
+              visibility: "FOLLOWERS" as const,
+              user: { followers: { some: { followerId: viewerId } } },
+            },
+            {
+              visibility: "SUBSCRIBERS" as const,
+              user: {
+                subscribers: {
+                  some: {
+                    subscriberId: viewerId,
+                    OR: [
+                      { expiresAt: null },
+                      { expiresAt: { gt: new Date() } },
+                    ],
+                  },
+                },
+              },
+            },
+          ]
+        : []),
+    ],
+  }),
+
+  /**
+   * Signs short-lived video, thumbnail, storyboard and animated preview
+   * tokens for a reel the viewer was already checked to be entitled to
+   * @param reel - Id, playback ids, cover frame and duration of the reel
+   * @param viewerId - Signed in viewer, if any
+   * @returns {ReelPlayback | null} Signed playback, or null if the reel has no playback id
+   */
+  signPlayback: async (
+    reel: Pick<Reel, "id" | "playbackIds" | "coverTime" | "duration">,
+    viewerId?: string,
+  ): Promise<ReelPlayback | null> => {
+    const playbackId = reel.playbackIds[0];
+    if (!playbackId) return null;
+
+    const coverTime = reel.coverTime ?? 0;
+    const previewEnd = Math.min(
+      coverTime + MUX_ANIMATED_PREVIEW_SECONDS,
+      reel.duration ?? Infinity,
+    );
+
+    try {
+      const claims = { [VIEWER_CLAIM]: viewerId ?? ANONYMOUS_VIEWER };
+      const sign = (
+        type: "video" | "thumbnail" | "storyboard" | "gif",
+        params?: Record<string, string>,
+      ) =>
+        muxClient.signPlaybackToken(
+          playbackId,
+          MUX_PLAYBACK_TOKEN_TTL_SECONDS,
+          type,
+          { ...claims, ...params },
+        );
+
+      const [playback, thumbnail, storyboard, preview] = await Promise.all([
+        sign("video"),
+        sign("thumbnail", { time: `${coverTime}` }),
+        sign("storyboard"),
+        sign("gif", {
+          start: `${coverTime}`,
+          end: `${previewEnd}`,
+          width: `${MUX_ANIMATED_PREVIEW_WIDTH}`,
+        }),
+      ]);
+
+      return {
+        reelId: reel.id,
+        playbackId,
+        expiresAt: Date.now() + MUX_PLAYBACK_TOKEN_TTL_SECONDS * 1000,
+        tokens: { playback, thumbnail, storyboard },
+        urls: {
+          video: muxClient.getPlaybackUrl(playbackId, "video", playback),
+          thumbnail: muxClient.getPlaybackUrl(
+            playbackId,
+            "thumbnail",
+            thumbnail,
+          ),
+          storyboard: muxClient.getPlaybackUrl(
+            playbackId,
+            "storyboard",
+            storyboard,
+          ),
+          preview: muxClient.getPlaybackUrl(playbackId, "gif", preview),
+        },
+      };
+    } catch (error) {
+      return handleError("sign reel playback", error);
+    }
+  },
+
+  /**
+   * Signs short-lived video, thumbnail and storyboard tokens for a viewer
+   * @param reelId - Reel to watch
+   * @param viewerId - Signed in viewer, if any
+   * @returns {ReelPlayback | null} Signed playback, or null if the reel is
+   * not playable or the viewer may not watch it
+   */
+  getPlayback: async (
+    reelId: string,
+    viewerId?: string,
+  ): Promise<ReelPlayback | null> => {
+    const reel = await reelPlaybackService.getViewableReel(reelId, viewerId);
+    if (!reel) return null;
+
+    return reelPlaybackService.signPlayback(reel, viewerId);
+  },
+};
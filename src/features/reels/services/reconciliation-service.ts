@@ -0,0 +1,216 @@
+import { type ReelStatus } from "@prisma/client";
+import type { Asset } from "@mux/mux-node/resources/video/assets";
+import { MUX_RECONCILE_GRACE_MS, MUX_RECONCILE_PAGE_SIZE } from "@/config/mux";
+import { db } from "@/lib/db";
+import { muxClient } from "@/lib/mux/client";
+import { createServiceContext } from "@/utils/service-utils";
+import { MuxPassthroughSchema, type ReelReconcileReport } from "../types";
+import { reelService } from "./reel-service";
+import { reelSearchIndexService } from "./search-index-service";
+
+const { log, handleError } = createServiceContext("ReelReconciliationService");
+
+/**
+ * Reels whose asset is no longer wanted, e.g. deleted by the creator
+ * or rejected for being over the reel limits
+ */
+const DISCARDED: ReelStatus[] = ["DELETED", "ERRORED"];
+
+/**
+ * Whether an asset came from a reel upload, going by the upload id and the
+ * passthrough `muxClient.createUploadUrl` sets. Other assets in the Mux
+ * environment are never touched.
+ */
+const isReelUpload = (asset: Asset) => {
+  if (!asset.upload_id || !asset.passthrough) return false;
+
+  try {
+    return MuxPassthroughSchema.safeParse(JSON.parse(asset.passthrough))
+      .success;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Sorts one page of Mux assets against the reels that refer to them, by
+ * asset id or, for reels that missed their asset webhooks, by upload id
+ * @param assets - Page of assets
+ * @param cutoff - Reel upload assets created before this are orphans if no reel has them
+ * @returns Ids of orphan assets, and assets to link with their reels
+ */
+const reconcilePage = async (assets: Asset[], cutoff: number) => {
+  const uploadIds = assets.flatMap((asset) =>
+    asset.upload_id ? [asset.upload_id] : [],
+  );
+  const reels = await db.reel.findMany({
+    where: {
+      OR: [
+        { assetId: { in: assets.map((asset) => asset.id) } },
+        { uploadId: { in: uploadIds } },
+      ],
+    },
+    select: { id: true, uploadId: true, assetId: true, status: true },
+  });
+  const reelsByAsset = new Map(
+    reels.flatMap((reel) => (reel.assetId ? [[reel.assetId, reel]] : [])),
+  );
+  const reelsByUpload = new Map(reels.map((reel) => [reel.uploadId, reel]));
+
+  const orphanAssets: string[] = [];
+  const unlinkedAssets: { reelId: string; asset: Asset }[] = [];
+  for (const asset of assets) {
+    const linked = reelsByAsset.get(asset.id);
+    if (linked) {
+      if (DISCARDED.includes(linked.status)) orphanAssets.push(asset.id);
+      continue;
+    }
+    if (!isReelUpload(asset)) continue;
+
+    const reel = reelsByUpload.get(asset.upload_id!);
+    if (reel && !reel.assetId && !DISCARDED.includes(reel.status)) {
+      unlinkedAssets.push({ reelId: reel.id, asset });
+    } else if (
+      reel
+        ? DISCARDED.includes(reel.status)
+        : // Mux reports `created_at` in seconds
+          Number(asset.created_at) * 1000 < cutoff
+    ) {
+      orphanAssets.push(asset.id);
+    }
+  }
+
+  return { orphanAssets, unlinkedAssets };
+};
+
+/**
+ * Finds live reels whose asset is not among the assets listed from Mux,
+ * reading the reels a page at a time
+ * @param assetIds - Every asset id in the Mux environment
+ * @param cutoff - Reels updated since are skipped
+ * @returns The reels and the asset they refer to
+ */
+const findMissingAssets = async (assetIds: Set<string>, cutoff: number) => {
+  const missingAssets: ReelReconcileReport["missingAssets"] = [];
+  let cursor: string | undefined;
+
+  do {
+    const reels = await db.reel.findMany({
+      where: {
+        assetId: { not: null },
+        status: { not: "DELETED" },
+        updatedAt: { lt: new Date(cutoff) },
+      },
+      select: { id: true, assetId: true },
+      orderBy: { id: "asc" },
+      take: MUX_RECONCILE_PAGE_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    for (const reel of reels) {
+      if (!assetIds.has(reel.assetId!)) {
+        missingAssets.push({ reelId: reel.id, assetId: reel.assetId! });
+      }
+    }
+    cursor =
+      reels.length === MUX_RECONCILE_PAGE_SIZE ? reels.at(-1)!.id : undefined;
+  } while (cursor);
+
+  return missingAssets;
+};
+
+/**
+ * Service that brings reels and Mux assets back in line after missed
+ * webhooks or failed deletions. Meant to run periodically.
+ */
+export const reelReconciliationService = {
+  /**
+   * Compares every Mux asset with the reels that refer to one, a page of
+   * `MUX_RECONCILE_PAGE_SIZE` assets at a time, then looks for reels whose
+   * asset is gone. Assets and reels younger than `MUX_RECONCILE_GRACE_MS`
+   * are skipped, except assets of deleted or errored reels, whose deletion
+   * only failed. Fixes are applied once every page is listed, so deletions
+   * do not shift the pages still to come.
+   * @param options.fix - Link unlinked assets to their reels, delete orphan assets and mark reels without an asset deleted
+   * @returns {ReelReconcileReport} What was found, and fixed if asked
+   */
+  reconcile: async ({
+    fix = false,
+  }: { fix?: boolean } = {}): Promise<ReelReconcileReport> => {
+    try {
+      const cutoff = Date.now() - MUX_RECONCILE_GRACE_MS;
+
+      const assetIds = new Set<string>();
+      const orphanAssets: string[] = [];
+      const toLink: { reelId: string; asset: Asset }[] = [];
+      for await (const assets of muxClient.listAssetPages()) {
+        for (const asset of assets) assetIds.add(asset.id);
+
+        const page = await reconcilePage(assets, cutoff);
+        orphanAssets.push(...page.orphanAssets);
+        toLink.push(...page.unlinkedAssets);
+      }
+      const unlinkedAssets = toLink.map(({ reelId, asset }) => ({
+        reelId,
+        assetId: asset.id,
+      }));
+
+      const missingAssets = await findMissingAssets(assetIds, cutoff);
+
+      const report: ReelReconcileReport = {
+        checkedAssets: assetIds.size,
+        orphanAssets,
+        unlinkedAssets,
+        missingAssets,
+        fixed: fix,
+        failed: [],
+      };
+
+      if (fix) {
+        // Applied as the missed webhooks would have
+        for (const { asset } of toLink) {
+          try {
+            await reelService.syncAsset(asset);
+          } catch (error) {
+            log.warn("could not link asset", { assetId: asset.id, error });
+            report.failed.push(asset.id);
+          }
+        }
+
+        for (const assetId of orphanAssets) {
+          try {
+            await muxClient.deleteAsset(assetId);
+          } catch (error) {
+            log.warn("could not delete orphan asset", { assetId, error });
+            report.failed.push(assetId);
+          }
+        }
+
+        for (const { reelId } of missingAssets) {
+          try {
+            await db.reel.update({
+              where: { id: reelId },
+              data: { status: "DELETED", publishedAt: null },
+            });
+            await reelSearchIndexService.remove(reelId);
+          } catch (error) {
+            log.warn("could not mark reel deleted", { reelId, error });
+            report.failed.push(reelId);
+          }
+        }
+      }
+
+      log.info("reels reconciled", {
+        checkedAssets: report.checkedAssets,
+        orphanAssets: orphanAssets.length,
+        unlinkedAssets: unlinkedAssets.length,
+        missingAssets: missingAssets.length,
+        fixed: fix,
+        failed: report.failed.length,
+      });
+      return report;
+    } catch (error) {
+      return handleError("reconcile reels", error);
+    }
+  },
+};
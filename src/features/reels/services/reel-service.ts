@@ -0,0 +1,573 @@
+import { type Reel, type ReelStatus } from "@prisma/client";
+import type { Asset } from "@mux/mux-node/resources/video/assets";
+import type { Upload } from "@mux/mux-node/resources/video/uploads";
+import type { UnwrapWebhookEvent } from "@mux/mux-node/resources/webhooks";
+import { MUX_PREVIEW_TOKEN_TTL_SECONDS } from "@/config/mux";
+import { REEL_MAX_DURATION_SECONDS, REEL_MAX_RESOLUTION } from "@/config/reels";
+import { db } from "@/lib/db";
+import { muxClient } from "@/lib/mux/client";
+import { sendToUser, type SSEEventPayload } from "@/lib/sse";
+import { createServiceContext } from "@/utils/service-utils";
+import { reelCaptionService } from "./caption-service";
+import { reelSearchIndexService } from "./search-index-service";
+import {
+  MuxPassthroughSchema,
+  type PublishReelInput,
+  type ReelIdInput,
+  type ReelMuxFields,
+  type UpdateReelInput,
+} from "../types";
+
+const { log, handleError } = createServiceContext("ReelService");
+
+/**
+ * Statuses a reel may be in for it to move to a given status.
+ * Mux can deliver webhooks late, out of order or more than once,
+ * so a reel only ever moves forward.
+ */
+const ALLOWED_FROM: Record<ReelStatus, ReelStatus[]> = {
+  CREATED: ["CREATED"],
+  PROCESSING: ["CREATED", "PROCESSING"],
+  READY: ["CREATED", "PROCESSING", "READY"],
+  ERRORED: ["CREATED", "PROCESSING", "ERRORED"],
+  DELETED: ["CREATED", "PROCESSING", "READY", "ERRORED", "DELETED"],
+};
+
+/**
+ * Identifies the reel a Mux event refers to
+ */
+type ReelRef = {
+  uploadId?: string;
+  assetId?: string;
+  /** Owner from the passthrough, needed to create the reel if it is missing */
+  userId?: string;
+};
+
+/**
+ * Reads the owner `muxClient.createUploadUrl` put in the passthrough
+ */
+const parsePassthrough = (passthrough?: string): string | undefined => {
+  if (!passthrough) return undefined;
+
+  try {
+    const parsed = MuxPassthroughSchema.safeParse(JSON.parse(passthrough));
+    return parsed.success ? parsed.data.userId : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Creates the reel if this is the first event seen for its upload,
+ * then moves it to `status` if its current status allows it
+ * @returns {boolean} true if the reel was updated
+ */
+const transition = async (
+  ref: ReelRef,
+  status: ReelStatus,
+  fields: ReelMuxFields = {},
+): Promise<boolean> => {
+  const { uploadId, assetId, userId } = ref;
+  if (!uploadId && !assetId) {
+    log.warn("ignoring Mux event without upload or asset id", { status });
+    return false;
+  }
+
+  try {
+    if (uploadId && userId) {
+      await db.reel.upsert({
+        where: { uploadId },
+        create: { uploadId, userId, status, ...fields },
+        update: {},
+      });
+    }
+
+    const { count } = await db.reel.updateMany({
+      where: {
+        ...(uploadId ? { uploadId } : { assetId }),
+        status: { in: ALLOWED_FROM[status] },
+      },
+      data: { ...fields, status },
+    });
+
+    if (count === 0) {
+      log.info("reel not moved", { uploadId, assetId, status });
+      return false;
+    }
+
+    log.info("reel moved", { uploadId, assetId, status });
+    return true;
+  } catch (error) {
+    return handleError(`move reel to ${status}`, error);
+  }
+};
+
+/**
+ * Maps a Mux asset onto the reel fields it fills in
+ */
+const assetFields = (asset: Asset): ReelMuxFields => ({
+  assetId: asset.id,
+  playbackIds: asset.playback_ids?.map((playbackId) => playbackId.id),
+  duration: asset.duration,
+  aspectRatio: asset.aspect_ratio,
+});
+
+const assetRef = (asset: Asset): ReelRef => ({
+  uploadId: asset.upload_id,
+  assetId: asset.id,
+  userId: parsePassthrough(asset.passthrough),
+});
+
+/**
+ * Explains why a processed asset is over the reel limits, if it is
+ */
+const overLimitReason = (asset: Asset): string | undefined => {
+  if (asset.duration && asset.duration > REEL_MAX_DURATION_SECONDS) {
+    return `Reels can be at most ${REEL_MAX_DURATION_SECONDS / 60} minutes long, this video is ${Math.ceil(asset.duration / 60)} minutes`;
+  }
+
+  const video = asset.tracks?.find((track) => track.type === "video");
+  const width = video?.max_width ?? 0;
+  const height = video?.max_height ?? 0;
+  if (Math.max(width, height) > REEL_MAX_RESOLUTION) {
+    return `Reels can be at most ${REEL_MAX_RESOLUTION} pixels on their longest side, this video is ${width}x${height}`;
+  }
+
+  return undefined;
+};
+
+/**
+ * Pushes a reel's new status to the uploader's open connections,
+ * so the upload page updates without polling
+ */
+const notifyUploader = (
+  ref: ReelRef,
+  payload: Omit<SSEEventPayload<"reel-status">, "uploadId" | "timestamp">,
+) => {
+  const { uploadId, userId } = ref;
+  if (!uploadId || !userId) return;
+
+  sendToUser(userId, "reel-status", {
+    uploadId,
+    ...payload,
+    timestamp: Date.now(),
+  });
+};
+
+/**
+ * Signs a token for the uploader to preview their reel. The preview is
+ * a nicety, so failing to sign only leaves it out.
+ */
+const signPreviewToken = async (playbackId: string) => {
+  try {
+    return await muxClient.signPlaybackToken(
+      playbackId,
+      MUX_PREVIEW_TOKEN_TTL_SECONDS,
+    );
+  } catch (error) {
+    log.warn("could not sign preview token", { playbackId, error });
+    return undefined;
+  }
+};
+
+/**
+ * Statuses a reel can be published from, it may still be processing
+ */
+const PUBLISHABLE: ReelStatus[] = ["CREATED", "PROCESSING", "READY"];
+
+/**
+ * Finds a reel if it belongs to the user and was not deleted
+ */
+const findOwned = (userId: string, reelId: string) =>
+  db.reel.findFirst({
+    where: { id: reelId, userId, status: { not: "DELETED" } },
+  });
+
+/**
+ * Service for the reel lifecycle, driven by Mux webhooks:
+ * created → processing → ready, errored or deleted.
+ * Independently, a reel is a draft until its creator publishes it,
+ * now or at a scheduled time.
+ */
+export const reelService = {
+  /**
+   * Creates the draft reel for a direct upload as soon as its URL is issued,
+   * so the creator can fill in its details while it uploads
+   * @param userId - Creator
+   * @param uploadId - Mux direct upload id
+   * @param captionLanguage - Language captions were requested in, if any
+   * @returns {Reel} The new reel
+   */
+  createForUpload: async (
+    userId: string,
+    uploadId: string,
+    captionLanguage: string | null = null,
+  ): Promise<Reel> => {
+    try {
+      const reel = await db.reel.create({
+        data: { userId, uploadId, captionLanguage },
+      });
+      log.info("reel created", { id: reel.id, uploadId });
+      return reel;
+    } catch (error) {
+      return handleError("create reel", error);
+    }
+  },
+
+  /**
+   * Saves the caption, hashtags, visibility and cover frame of a reel.
+   * A null caption clears it, the cover frame is clamped to the video.
+   * @param userId - Creator, only they may edit the reel
+   * @param input - Reel id and its details
+   * @returns {Reel | null} The updated reel, or null if the user has no such reel
+   */
+  updateMetadata: async (
+    userId: string,
+    { reelId, coverTime, ...metadata }: UpdateReelInput,
+  ): Promise<Reel | null> => {
+    try {
+      const reel = await findOwned(userId, reelId);
+      if (!reel) return null;
+
+      const updated = await db.reel.update({
+        where: { id: reel.id },
+        data: {
+          ...metadata,
+          // Kept within the video once its duration is known
+          coverTime:
+            coverTime !== undefined && reel.duration !== null
+              ? Math.min(coverTime, reel.duration)
+              : coverTime,
+        },
+      });
+      await reelSearchIndexService.index(updated);
+      return updated;
+    } catch (error) {
+      return handleError("update reel", error);
+    }
+  },
+
+  /**
+   * Publishes a reel now, or schedules it. Feeds only show reels
+   * whose `publishedAt` has passed, so no job is needed to publish later.
+   * @param userId - Creator
+   * @param input - Reel id and an optional future publish time
+   * @returns {Reel | null} The updated reel, or null if the user has no publishable reel with this id
+   */
+  publish: async (
+    userId: string,
+    { reelId, publishAt }: PublishReelInput,
+  ): Promise<Reel | null> => {
+    try {
+      const reel = await findOwned(userId, reelId);
+      if (!reel || !PUBLISHABLE.includes(reel.status)) return null;
+
+      const publishedAt = publishAt ?? new Date();
+      log.info(publishAt ? "reel scheduled" : "reel published", {
+        id: reel.id,
+        publishedAt,
+      });
+      const published = await db.reel.update({
+        where: { id: reel.id },
+        data: { publishedAt },
+      });
+      await reelSearchIndexService.index(published);
+      return published;
+    } catch (error) {
+      return handleError("publish reel", error);
+    }
+  },
+
+  /**
+   * Moves a reel back to draft, cancelling any scheduled publish
+   * @param userId - Creator
+   * @param input - Reel id
+   * @returns {Reel | null} The updated reel, or null if the user has no such reel
+   */
+  unpublish: async (
+    userId: string,
+    { reelId }: ReelIdInput,
+  ): Promise<Reel | null> => {
+    try {
+      const reel = await findOwned(userId, reelId);
+      if (!reel) return null;
+
+      const draft = await db.reel.update({
+        where: { id: reel.id },
+        data: { publishedAt: null },
+      });
+      await reelSearchIndexService.remove(reel.id);
+      return draft;
+    } catch (error) {
+      return handleError("unpublish reel", error);
+    }
+  },
+
+  /**
+   * Deletes a reel for its creator. The row is kept as DELETED, and the
+   * Mux asset is deleted so its signed playback URLs stop working.
+   * If Mux cannot be reached, reconciliation deletes the asset later.
+   * @param userId - Creator
+   * @param input - Reel id
+   * @returns {Reel | null} The deleted reel, or null if the user has no such reel
+   */
+  deleteReel: async (
+    userId: string,
+    { reelId }: ReelIdInput,
+  ): Promise<Reel | null> => {
+    try {
+      const reel = await findOwned(userId, reelId);
+      if (!reel) return null;
+
+      const deleted = await db.reel.update({
+        where: { id: reel.id },
+        data: { status: "DELETED", publishedAt: null },
+      });
+      log.info("reel deleted", { id: reel.id, assetId: reel.assetId });
+      await reelSearchIndexService.remove(reel.id);
+
+      if (reel.assetId) {
+        try {
+          await muxClient.deleteAsset(reel.assetId);
+        } catch (error) {
+          log.warn("could not delete Mux asset, left for reconciliation", {
+            id: reel.id,
+            assetId: reel.assetId,
+            error,
+          });
+        }
+      }
+      return deleted;
+    } catch (error) {
+      return handleError("delete reel", error);
+    }
+  },
+
+  /**
+   * Records a reel for a new direct upload
+   * @param upload - Upload from `video.upload.created`
+   */
+  recordUpload: async (upload: Upload) => {
+    return transition(
+      {
+        uploadId: upload.id,
+        userId: parsePassthrough(upload.new_asset_settings?.passthrough),
+      },
+      "CREATED",
+    );
+  },
+
+  /**
+   * The file was uploaded and Mux started encoding it
+   * @param upload - Upload from `video.upload.asset_created`
+   */
+  markUploaded: async (upload: Upload) => {
+    const ref = {
+      uploadId: upload.id,
+      userId: parsePassthrough(upload.new_asset_settings?.passthrough),
+    };
+    const moved = await transition(ref, "PROCESSING", {
+      assetId: upload.asset_id,
+    });
+
+    if (moved) notifyUploader(ref, { status: "processing" });
+    return moved;
+  },
+
+  /**
+   * The upload was cancelled, timed out or failed before an asset was created
+   * @param upload - Upload from `video.upload.cancelled` or `video.upload.errored`
+   */
+  markUploadFailed: async (upload: Upload) => {
+    return transition(
+      {
+        uploadId: upload.id,
+        userId: parsePassthrough(upload.new_asset_settings?.passthrough),
+      },
+      "ERRORED",
+      {
+        errorMessage:
+          upload.error?.message ??
+          (upload.status === "cancelled"
+            ? "Upload cancelled"
+            : upload.status === "timed_out"
+              ? "Upload timed out"
+              : "Upload failed"),
+      },
+    );
+  },
+
+  /**
+   * The creator's upload failed before the file reached Mux. The upload is
+   * cancelled so a late file cannot still create an asset.
+   * @param userId - Creator
+   * @param uploadId - Mux direct upload id
+   * @returns {boolean} true if the reel was still waiting for its upload
+   */
+  cancelUpload: async (userId: string, uploadId: string): Promise<boolean> => {
+    try {
+      const reel = await db.reel.findFirst({
+        where: { uploadId, userId, status: "CREATED" },
+        select: { id: true },
+      });
+      if (!reel) return false;
+
+      await muxClient.cancelUpload(uploadId);
+      log.info("upload cancelled", { id: reel.id, uploadId });
+      return await transition({ uploadId }, "ERRORED", {
+        errorMessage: "Upload cancelled",
+      });
+    } catch (error) {
+      return handleError("cancel upload", error);
+    }
+  },
+
+  /**
+   * Mux created or updated the asset while it is still being processed
+   * @param asset - Asset from `video.asset.created` or `video.asset.updated`
+   */
+  syncAsset: async (asset: Asset) => {
+    const reason = asset.status === "ready" && overLimitReason(asset);
+    if (reason) return reelService.rejectAsset(asset, reason);
+
+    const status: ReelStatus =
+      asset.status === "ready"
+        ? "READY"
+        : asset.status === "errored"
+          ? "ERRORED"
+          : "PROCESSING";
+    return transition(assetRef(asset), status, assetFields(asset));
+  },
+
+  /**
+   * The asset can be played
+   * @param asset - Asset from `video.asset.ready`
+   */
+  markReady: async (asset: Asset) => {
+    const reason = overLimitReason(asset);
+    if (reason) return reelService.rejectAsset(asset, reason);
+
+    const ref = assetRef(asset);
+    const moved = await transition(ref, "READY", {
+      ...assetFields(asset),
+      errorMessage: null,
+    });
+
+    if (moved) {
+      const playbackId = asset.playback_ids?.[0]?.id;
+      notifyUploader(ref, {
+        status: "ready",
+        playbackId,
+        playbackToken: playbackId
+          ? await signPreviewToken(playbackId)
+          : undefined,
+      });
+    }
+    return moved;
+  },
+
+  /**
+   * The asset is over the reel limits. The reel errors with the reason
+   * for the uploader, and the asset is deleted so it stops costing storage.
+   * @param asset - Asset Mux reported ready
+   * @param reason - Why it was rejected, shown to the uploader
+   */
+  rejectAsset: async (asset: Asset, reason: string) => {
+    const ref = assetRef(asset);
+    const moved = await transition(ref, "ERRORED", {
+      ...assetFields(asset),
+      errorMessage: reason,
+    });
+    if (!moved) return false;
+
+    log.warn("reel over limits", { assetId: asset.id, reason });
+    notifyUploader(ref, { status: "errored", errorMessage: reason });
+    try {
+      await muxClient.deleteAsset(asset.id);
+    } catch (error) {
+      log.warn("could not delete rejected asset, left for reconciliation", {
+        assetId: asset.id,
+        error,
+      });
+    }
+    return true;
+  },
+
+  /**
+   * Mux could not process the asset
+   * @param asset - Asset from `video.asset.errored`
+   */
+  markErrored: async (asset: Asset) => {
+    const ref = assetRef(asset);
+    const errorMessage =
+      asset.errors?.messages?.join("; ") ??
+      asset.errors?.type ??
+      "Asset processing failed";
+    const moved = await transition(ref, "ERRORED", {
+      ...assetFields(asset),
+      errorMessage,
+    });
+
+    if (moved) notifyUploader(ref, { status: "errored", errorMessage });
+    return moved;
+  },
+
+  /**
+   * The asset was deleted from Mux
+   * @param asset - Asset from `video.asset.deleted`
+   */
+  markDeleted: async (asset: Asset) => {
+    const moved = await transition(assetRef(asset), "DELETED");
+
+    if (moved) {
+      const reel = await db.reel.findFirst({
+        where: { assetId: asset.id },
+        select: { id: true },
+      });
+      if (reel) await reelSearchIndexService.remove(reel.id);
+    }
+    return moved;
+  },
+
+  /**
+   * Applies a verified Mux webhook event to its reel
+   * @param event - Event from `muxWebhookService.verifyWebhookEvent`
+   * @returns {boolean} true if a reel was updated
+   */
+  handleMuxEvent: async (event: UnwrapWebhookEvent): Promise<boolean> => {
+    switch (event.type) {
+      // Upload-related events
+      case "video.upload.created":
+        return reelService.recordUpload(event.data);
+      case "video.upload.asset_created":
+        return reelService.markUploaded(event.data);
+      case "video.upload.cancelled":
+      case "video.upload.errored":
+        return reelService.markUploadFailed(event.data);
+
+      // Asset-related events
+      case "video.asset.created":
+      case "video.asset.updated":
+        return reelService.syncAsset(event.data);
+      case "video.asset.ready":
+        return reelService.markReady(event.data);
+      case "video.asset.errored":
+        return reelService.markErrored(event.data);
+      case "video.asset.deleted":
+        return reelService.markDeleted(event.data);
+
+      // Caption tracks generated after the asset is ready
+      case "video.asset.track.ready":
+        return reelCaptionService.markReady(event.data);
+      case "video.asset.track.errored":
+        return reelCaptionService.markErrored(event.data);
+      case "video.asset.track.deleted":
+        return reelCaptionService.remove(event.data);
+
+      // For any unhandled event types
+      default:
+        log.info("unhandled Mux event type", { type: event.type });
+        return false;
+    }
+  },
+};
@@ -0,0 +1,68 @@
+import { type Reel } from "@prisma/client";
+import { db } from "@/lib/db";
+import { melisearchClient } from "@/lib/melisearch/client";
+import { ensureIndexAndAddDocuments } from "@/lib/melisearch/workflows";
+import { createServiceContext } from "@/utils/service-utils";
+
+const { log } = createServiceContext("ReelSearchIndexService");
+
+/**
+ * Keeps published reels in the `reels` search index. Search is secondary
+ * to publishing and deleting, so failures are logged rather than thrown.
+ */
+export const reelSearchIndexService = {
+  /**
+   * Adds or updates a published reel with the transcripts of its captions.
+   * Scheduled reels are indexed with a future `publishedAt`, searches
+   * filter them out until then.
+   * @param reel - The published reel
+   */
+  index: async (reel: Reel) => {
+    if (!reel.publishedAt) return;
+
+    try {
+      const captions = await db.reelCaption.findMany({
+        where: { reelId: reel.id, status: "READY" },
+        select: { transcript: true },
+      });
+
+      await ensureIndexAndAddDocuments(
+        "reels",
+        [
+          {
+            id: reel.id,
+            creatorId: reel.userId,
+            caption: reel.caption ?? "",
+            hashtags: reel.hashtags,
+            coverTime: reel.coverTime ?? 0,
+            transcript: captions
+              .map((caption) => caption.transcript)
+              .filter(Boolean)
+              .join("\n"),
+            visibility: reel.visibility,
+            publishedAt: reel.publishedAt.getTime(),
+          },
+        ],
+        {
+          searchable: ["caption", "hashtags", "transcript"],
+          filterable: ["creatorId", "visibility", "publishedAt"],
+          sortable: ["publishedAt"],
+        },
+      );
+    } catch (error) {
+      log.warn("could not index reel", { id: reel.id, error });
+    }
+  },
+
+  /**
+   * Removes a reel, e.g. when it is deleted or back to draft
+   * @param reelId - Reel to remove
+   */
+  remove: async (reelId: string) => {
+    try {
+      await melisearchClient.deleteDocuments("reels", reelId);
+    } catch (error) {
+      log.warn("could not remove reel from index", { id: reelId, error });
+    }
+  },
+};
@@ -0,0 +1,164 @@
+import { MUX_UPLOAD_TIMEOUT_SECONDS } from "@/config/mux";
+import {
+  REEL_MAX_PENDING_UPLOADS,
+  REEL_PENDING_UPLOAD_WINDOW_MS,
+  REEL_UPLOADS_PER_DAY,
+} from "@/config/reels";
+import { db } from "@/lib/db";
+import { getRedis } from "@/lib/redis";
+import { createServiceContext } from "@/utils/service-utils";
+import type { ReelUploadQuota } from "../types";
+
+const { log } = createServiceContext("ReelUploadQuotaService");
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Longest a reservation may hold the user's upload lock, in case `release`
+// is never called
+const LOCK_SECONDS = 30;
+
+/**
+ * Redis key counting a user's uploads on the current UTC day
+ */
+const dailyKey = (userId: string) =>
+  `reels:uploads:${userId}:${new Date().toISOString().slice(0, 10)}`;
+
+/**
+ * Redis key held while one of the user's uploads is being set up
+ */
+const lockKey = (userId: string) => `reels:uploads:${userId}:lock`;
+
+/**
+ * Takes one upload from a daily counter unless it is used up, in one step
+ * so requests over the limit do not count.
+ *
+ * KEYS: daily counter
+ * ARGV: uploads per day, counter TTL
+ *
+ * Returns the uploads used including this one, or 0 if none were left
+ */
+const TAKE_DAILY_SCRIPT = `
+local used = tonumber(redis.call("GET", KEYS[1]) or "0")
+if used >= tonumber(ARGV[1]) then return 0 end
+
+used = redis.call("INCR", KEYS[1])
+if used == 1 then redis.call("EXPIRE", KEYS[1], ARGV[2]) end
+return used
+`;
+
+/**
+ * Checks the user's limits and takes one upload from their daily quota
+ */
+const take = async (userId: string): Promise<ReelUploadQuota> => {
+  // Mux stops accepting the file once the upload URL times out, so reels
+  // still waiting for theirs never will get it
+  const timedOutBefore = new Date(
+    Date.now() - MUX_UPLOAD_TIMEOUT_SECONDS * 1000,
+  );
+  await db.reel.updateMany({
+    where: { userId, status: "CREATED", createdAt: { lt: timedOutBefore } },
+    data: { status: "ERRORED", errorMessage: "Upload timed out" },
+  });
+
+  const pending = await db.reel.count({
+    where: {
+      userId,
+      OR: [
+        { status: "CREATED" },
+        {
+          status: "PROCESSING",
+          createdAt: {
+            gt: new Date(Date.now() - REEL_PENDING_UPLOAD_WINDOW_MS),
+          },
+        },
+      ],
+    },
+  });
+  if (pending >= REEL_MAX_PENDING_UPLOADS) {
+    log.warn("too many pending uploads", { userId, pending });
+    return {
+      allowed: false,
+      reason: `You have ${pending} reels still uploading or processing. Wait for them to finish before uploading another.`,
+    };
+  }
+
+  const redis = await getRedis();
+  const key = dailyKey(userId);
+  const used = Number(
+    await redis.eval(
+      TAKE_DAILY_SCRIPT,
+      [key],
+      // Kept a little over a day so the key outlives the day it counts
+      [REEL_UPLOADS_PER_DAY, DAY_SECONDS + 60 * 60],
+    ),
+  );
+
+  if (!used) {
+    log.warn("daily upload quota reached", { userId });
+    return {
+      allowed: false,
+      reason: `You can upload up to ${REEL_UPLOADS_PER_DAY} reels a day. Try again tomorrow.`,
+    };
+  }
+
+  return {
+    allowed: true,
+    remaining: REEL_UPLOADS_PER_DAY - used,
+    reservation: key,
+  };
+};
+
+/**
+ * Service guarding how many reels a user may upload
+ */
+export const reelUploadQuotaService = {
+  /**
+   * Takes one upload from the user's quota if they are under their limits.
+   * Pending uploads are checked first, and the daily quota is only taken
+   * while some is left, so refused requests do not use it up.
+   * A granted reservation holds the user's upload lock until `release`, so
+   * parallel requests cannot all pass the pending check before their reels
+   * are created.
+   * @param userId - Uploader
+   * @returns {ReelUploadQuota} Whether the upload may go ahead, with a reason for the user if not
+   */
+  reserve: async (userId: string): Promise<ReelUploadQuota> => {
+    const redis = await getRedis();
+    const locked = await redis.set(lockKey(userId), 1, {
+      nx: true,
+      ex: LOCK_SECONDS,
+    });
+    if (!locked) {
+      return {
+        allowed: false,
+        reason: "Another upload is starting. Try again in a moment.",
+      };
+    }
+
+    try {
+      const quota = await take(userId);
+      if (!quota.allowed) await redis.del(lockKey(userId));
+      return quota;
+    } catch (error) {
+      await redis.del(lockKey(userId));
+      throw error;
+    }
+  },
+
+  /**
+   * Ends a granted reservation once the upload's reel is created, or the
+   * upload could not be set up
+   * @param userId - Uploader
+   * @param reservation - From the granted `reserve`, the day the upload was taken from
+   * @param options.refund - Give the upload back to the daily quota, e.g. when Mux refused to create it
+   */
+  release: async (
+    userId: string,
+    reservation: string,
+    { refund = false } = {},
+  ) => {
+    const redis = await getRedis();
+    if (refund) await redis.decr(reservation);
+    await redis.del(lockKey(userId));
+  },
+};
@@ -0,0 +1,22 @@
+import { REEL_PLAN_ASSET_SETTINGS } from "@/config/reels";
+import { db } from "@/lib/db";
+import type { MuxAssetSettings } from "@/lib/mux/types";
+
+/**
+ * Service deciding how Mux processes a creator's uploads
+ */
+export const reelUploadSettingsService = {
+  /**
+   * Asset settings for the creator's plan. Anything not set falls back
+   * to `MUX_DEFAULT_ASSET_SETTINGS`.
+   * @param userId - Creator
+   * @returns {MuxAssetSettings} Overrides for their next upload
+   */
+  forCreator: async (userId: string): Promise<MuxAssetSettings> => {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { plan: true },
+    });
+    return REEL_PLAN_ASSET_SETTINGS[user?.plan ?? "FREE"];
+  },
+};
@@ -0,0 +1,32 @@
+import { type Session } from "next-auth";
+import { TRPCError } from "@trpc/server";
+import { createServiceContext } from "@/utils/service-utils";
+import { reelCoverService } from "../../services/cover-service";
+import type { ReelIdInput } from "../../types";
+
+const { log } = createServiceContext("getCoverFramesHandler");
+
+export const getCoverFramesHandler = async ({
+  ctx,
+  input,
+}: {
+  ctx: { session: Session };
+  input: ReelIdInput;
+}) => {
+  let frames;
+  try {
+    frames = await reelCoverService.getFrames(ctx.session.user.id, input);
+  } catch (error) {
+    // Don't user `handleError` here, as we want to throw a TRPCError
+    log.error("loading cover frames", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to load cover frames",
+    });
+  }
+
+  if (!frames) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Reel not found" });
+  }
+  return frames;
+};
@@ -0,0 +1,34 @@
+import { type Session } from "next-auth";
+import { TRPCError } from "@trpc/server";
+import { createServiceContext } from "@/utils/service-utils";
+import { reelFeedService } from "../../services/feed-service";
+import type { ReelFeedInput } from "../../types";
+
+const { log } = createServiceContext("getFeedHandler");
+
+export const getFeedHandler = async ({
+  ctx,
+  input,
+}: {
+  ctx: { session: Session | null };
+  input: ReelFeedInput;
+}) => {
+  const viewerId = ctx.session?.user.id;
+  if (input.mode === "following" && !viewerId) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Sign in to see reels from creators you follow",
+    });
+  }
+
+  try {
+    return await reelFeedService.getFeed(viewerId, input);
+  } catch (error) {
+    // Don't user `handleError` here, as we want to throw a TRPCError
+    log.error("loading reel feed", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to load reels",
+    });
+  }
+};
@@ -0,0 +1,37 @@
+import { type Session } from "next-auth";
+import { TRPCError } from "@trpc/server";
+import { createServiceContext } from "@/utils/service-utils";
+import { reelPlaybackService } from "../../services/playback-service";
+import type { ReelIdInput } from "../../types";
+
+const { log } = createServiceContext("getPlaybackHandler");
+
+export const getPlaybackHandler = async ({
+  ctx,
+  input,
+}: {
+  ctx: { session: Session | null };
+  input: ReelIdInput;
+}) => {
+  let playback;
+  try {
+    playback = await reelPlaybackService.getPlayback(
+      input.reelId,
+      ctx.session?.user.id,
+    );
+  } catch (error) {
+    // Don't user `handleError` here, as we want to throw a TRPCError
+    log.error("signing reel playback", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to load reel playback",
+    });
+  }
+
+  // Reels the viewer may not watch are reported as missing, so their
+  // existence is not leaked
+  if (!playback) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Reel not found" });
+  }
+  return playback;
+};
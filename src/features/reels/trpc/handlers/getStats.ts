@@ -0,0 +1,23 @@
+import { type Session } from "next-auth";
+import { TRPCError } from "@trpc/server";
+import { createServiceContext } from "@/utils/service-utils";
+import { reelAnalyticsService } from "../../services/analytics-service";
+
+const { log } = createServiceContext("getStatsHandler");
+
+export const getStatsHandler = async ({
+  ctx,
+}: {
+  ctx: { session: Session };
+}) => {
+  try {
+    return await reelAnalyticsService.getCreatorStats(ctx.session.user.id);
+  } catch (error) {
+    // Don't user `handleError` here, as we want to throw a TRPCError
+    log.error("loading reel stats", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to load reel stats",
+    });
+  }
+};
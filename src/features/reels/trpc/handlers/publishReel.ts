@@ -0,0 +1,35 @@
+import { type Session } from "next-auth";
+import { TRPCError } from "@trpc/server";
+import { createServiceContext } from "@/utils/service-utils";
+import { reelService } from "../../services/reel-service";
+import type { PublishReelInput } from "../../types";
+
+const { log } = createServiceContext("publishReelHandler");
+
+export const publishReelHandler = async ({
+  ctx,
+  input,
+}: {
+  ctx: { session: Session };
+  input: PublishReelInput;
+}) => {
+  let reel;
+  try {
+    reel = await reelService.publish(ctx.session.user.id, input);
+  } catch (error) {
+    // Don't user `handleError` here, as we want to throw a TRPCError
+    log.error("publishing reel", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to publish reel",
+    });
+  }
+
+  if (!reel) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Reel not found or cannot be published",
+    });
+  }
+  return reel;
+};
@@ -0,0 +1,54 @@
+import { createHash } from "crypto";
+import { type Session } from "next-auth";
+import { TRPCError } from "@trpc/server";
+import { getClientIp } from "@/utils/request-utils";
+import { createServiceContext } from "@/utils/service-utils";
+import { reelAnalyticsService } from "../../services/analytics-service";
+import type { RecordViewInput, ReelViewerIdentity } from "../../types";
+
+const { log } = createServiceContext("recordViewHandler");
+
+/**
+ * Signed in viewers are counted by user id, anonymous ones by a hash of
+ * their IP and user agent, so neither is stored as is
+ */
+const identifyViewer = (
+  session: Session | null,
+  headers: Headers,
+): ReelViewerIdentity => {
+  if (session)
+    return { key: `user:${session.user.id}`, userId: session.user.id };
+
+  const hash = createHash("sha256")
+    .update(`${getClientIp(headers) ?? ""}|${headers.get("user-agent") ?? ""}`)
+    .digest("hex");
+  return { key: `anon:${hash}` };
+};
+
+export const recordViewHandler = async ({
+  ctx,
+  input,
+}: {
+  ctx: { session: Session | null; headers: Headers };
+  input: RecordViewInput;
+}) => {
+  let result;
+  try {
+    result = await reelAnalyticsService.recordView(
+      identifyViewer(ctx.session, ctx.headers),
+      input,
+    );
+  } catch (error) {
+    // Don't user `handleError` here, as we want to throw a TRPCError
+    log.error("recording reel view", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to record view",
+    });
+  }
+
+  if (!result) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Reel not found" });
+  }
+  return result;
+};
@@ -0,0 +1,32 @@
+import { type Session } from "next-auth";
+import { TRPCError } from "@trpc/server";
+import { createServiceContext } from "@/utils/service-utils";
+import { reelService } from "../../services/reel-service";
+import type { ReelIdInput } from "../../types";
+
+const { log } = createServiceContext("unpublishReelHandler");
+
+export const unpublishReelHandler = async ({
+  ctx,
+  input,
+}: {
+  ctx: { session: Session };
+  input: ReelIdInput;
+}) => {
+  let reel;
+  try {
+    reel = await reelService.unpublish(ctx.session.user.id, input);
+  } catch (error) {
+    // Don't user `handleError` here, as we want to throw a TRPCError
+    log.error("unpublishing reel", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to move reel back to draft",
+    });
+  }
+
+  if (!reel) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Reel not found" });
+  }
+  return reel;
+};
@@ -0,0 +1,32 @@
+import { type Session } from "next-auth";
+import { TRPCError } from "@trpc/server";
+import { createServiceContext } from "@/utils/service-utils";
+import { reelService } from "../../services/reel-service";
+import type { UpdateReelInput } from "../../types";
+
+const { log } = createServiceContext("updateReelHandler");
+
+export const updateReelHandler = async ({
+  ctx,
+  input,
+}: {
+  ctx: { session: Session };
+  input: UpdateReelInput;
+}) => {
+  let reel;
+  try {
+    reel = await reelService.updateMetadata(ctx.session.user.id, input);
+  } catch (error) {
+    // Don't user `handleError` here, as we want to throw a TRPCError
+    log.error("updating reel details", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to save reel details",
+    });
+  }
+
+  if (!reel) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Reel not found" });
+  }
+  return reel;
+};
@@ -0,0 +1,47 @@
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  publicProcedure,
+} from "@/lib/trpc";
+import { updateReelHandler } from "./handlers/updateReel";
+import { publishReelHandler } from "./handlers/publishReel";
+import { unpublishReelHandler } from "./handlers/unpublishReel";
+import { deleteReelHandler } from "./handlers/deleteReel";
+import { getPlaybackHandler } from "./handlers/getPlayback";
+import { getFeedHandler } from "./handlers/getFeed";
+import { getCoverFramesHandler } from "./handlers/getCoverFrames";
+import { recordViewHandler } from "./handlers/recordView";
+import { getStatsHandler } from "./handlers/getStats";
+import {
+  PublishReelInputSchema,
+  RecordViewInputSchema,
+  ReelFeedInputSchema,
+  ReelIdInputSchema,
+  UpdateReelInputSchema,
+} from "../types";
+
+export const reelsRouter = createTRPCRouter({
+  update: protectedProcedure
+    .input(UpdateReelInputSchema)
+    .mutation(updateReelHandler),
+  publish: protectedProcedure
+    .input(PublishReelInputSchema)
+    .mutation(publishReelHandler),
+  unpublish: protectedProcedure
+    .input(ReelIdInputSchema)
+    .mutation(unpublishReelHandler),
+  delete: protectedProcedure
+    .input(ReelIdInputSchema)
+    .mutation(deleteReelHandler),
+  coverFrames: protectedProcedure
+    .input(ReelIdInputSchema)
+    .query(getCoverFramesHandler),
+  stats: protectedProcedure.query(getStatsHandler),
+  // Public, entitlement is checked against the viewer if signed in
+  playback: publicProcedure.input(ReelIdInputSchema).query(getPlaybackHandler),
+  feed: publicProcedure.input(ReelFeedInputSchema).query(getFeedHandler),
+  // Public so anonymous views count, watch time reports from the player
+  recordView: publicProcedure
+    .input(RecordViewInputSchema)
+    .mutation(recordViewHandler),
+});
@@ -0,0 +1,267 @@
+import { z } from "zod";
+import type { MuxCaptionLanguage } from "@/lib/mux/types";
+
+/**
+ * Data `muxClient.createUploadUrl` stores in the asset's `passthrough`
+ */
+export const MuxPassthroughSchema = z.object({
+  userId: z.string(),
+});
+
+export type MuxPassthrough = z.infer<typeof MuxPassthroughSchema>;
+
+/**
+ * Reel fields filled in from Mux upload and asset events
+ */
+export type ReelMuxFields = {
+  assetId?: string;
+  playbackIds?: string[];
+  duration?: number;
+  aspectRatio?: string;
+  errorMessage?: string | null;
+};
+
+export const REEL_CAPTION_MAX_LENGTH = 2200;
+export const REEL_HASHTAGS_MAX = 30;
+
+export const reelVisibilities = [
+  "PUBLIC",
+  "FOLLOWERS",
+  "SUBSCRIBERS",
+  "PRIVATE",
+] as const;
+
+/**
+ * A hashtag with or without its leading `#`, stored without it in lower case
+ */
+const HashtagSchema = z
+  .string()
+  .trim()
+  .transform((tag) => tag.replace(/^#/, "").toLowerCase())
+  .pipe(
+    z
+      .string()
+      .regex(
+        /^[\p{L}\p{N}_]{1,50}$/u,
+        "Hashtags may only contain letters, numbers and underscores",
+      ),
+  );
+
+/**
+ * Details a creator fills in after uploading a reel
+ */
+export const ReelMetadataSchema = z.object({
+  // Null, or empty once trimmed, clears the caption
+  caption: z
+    .string()
+    .trim()
+    .max(REEL_CAPTION_MAX_LENGTH)
+    .transform((caption) => caption || null)
+    .nullable()
+    .optional(),
+  hashtags: z
+    .array(HashtagSchema)
+    .max(REEL_HASHTAGS_MAX)
+    .default([])
+    .transform((tags) => [...new Set(tags)]),
+  visibility: z.enum(reelVisibilities).default("PUBLIC"),
+  // Seconds into the video for the cover frame
+  coverTime: z.number().min(0).optional(),
+});
+
+export type ReelMetadata = z.infer<typeof ReelMetadataSchema>;
+
+export const ReelIdInputSchema = z.object({
+  reelId: z.string(),
+});
+
+export type ReelIdInput = z.infer<typeof ReelIdInputSchema>;
+
+/**
+ * Languages creators can have captions generated in
+ */
+export const reelCaptionLanguages = [
+  "en",
+  "es",
+  "fr",
+  "de",
+  "it",
+  "pt",
+  "nl",
+  "pl",
+  "sv",
+  "da",
+  "no",
+  "fi",
+  "ru",
+  "uk",
+  "tr",
+] as const satisfies readonly MuxCaptionLanguage[];
+
+export type ReelCaptionLanguage = (typeof reelCaptionLanguages)[number];
+
+/**
+ * Choices the creator makes before the upload starts
+ */
+export const ReelUploadInputSchema = z.object({
+  // Null to upload without captions
+  captionLanguage: z.enum(reelCaptionLanguages).nullable().default("en"),
+});
+
+export type ReelUploadInput = z.input<typeof ReelUploadInputSchema>;
+
+export const UpdateReelInputSchema = ReelMetadataSchema.extend({
+  reelId: z.string(),
+});
+
+export type UpdateReelInput = z.infer<typeof UpdateReelInputSchema>;
+
+export const PublishReelInputSchema = z.object({
+  reelId: z.string(),
+  // Publish at a future time instead of now
+  publishAt: z
+    .date()
+    .refine((date) => date.getTime() > Date.now(), {
+      message: "Scheduled time must be in the future",
+    })
+    .optional(),
+});
+
+export type PublishReelInput = z.infer<typeof PublishReelInputSchema>;
+
+/**
+ * Short-lived signed playback for one viewer of a reel
+ */
+export type ReelPlayback = {
+  reelId: string;
+  playbackId: string;
+  /** When the tokens expire, in milliseconds since the epoch */
+  expiresAt: number;
+  /** Tokens for players that take them, e.g. `mux-player-react` */
+  tokens: { playback: string; thumbnail: string; storyboard: string };
+  urls: {
+    video: string;
+    /** Cover frame chosen by the creator */
+    thumbnail: string;
+    storyboard: string;
+    /** Short animated GIF from the cover frame on, e.g. on hover */
+    preview: string;
+  };
+};
+
+/**
+ * Frames a creator can pick the cover of their reel from, cut from a
+ * signed storyboard sprite. Only available once Mux has processed the reel.
+ */
+export type ReelCoverFrames =
+  | { status: "processing" }
+  | {
+      status: "ready";
+      spriteUrl: string;
+      tileWidth: number;
+      tileHeight: number;
+      duration: number;
+      frames: { time: number; x: number; y: number }[];
+    };
+
+const FEED_PAGE_SIZE = 5;
+
+export const reelFeedModes = ["forYou", "following"] as const;
+
+export type ReelFeedMode = (typeof reelFeedModes)[number];
+
+export const ReelFeedInputSchema = z.object({
+  mode: z.enum(reelFeedModes).default("forYou"),
+  // Only reels of this creator
+  creatorId: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.number().int().min(1).max(20).default(FEED_PAGE_SIZE),
+});
+
+export type ReelFeedInput = z.infer<typeof ReelFeedInputSchema>;
+
+/**
+ * A reel in the feed, signed for the viewer so it can start playing
+ * as soon as it scrolls into view
+ */
+export type ReelFeedItem = {
+  id: string;
+  caption: string | null;
+  hashtags: string[];
+  publishedAt: Date | null;
+  creator: { id: string; name: string | null; image: string | null };
+  playback: ReelPlayback;
+};
+
+/**
+ * Outcome of taking an upload from a user's quota
+ */
+export type ReelUploadQuota =
+  | {
+      allowed: true;
+      remaining: number;
+      /** Pass to `release` once the upload is set up or failed */
+      reservation: string;
+    }
+  | { allowed: false; reason: string };
+
+/**
+ * What a reconciliation run found between reels and Mux assets,
+ * and what it fixed when asked to
+ */
+export type ReelReconcileReport = {
+  /** Assets listed from Mux */
+  checkedAssets: number;
+  /** Assets of reel uploads no live reel refers to */
+  orphanAssets: string[];
+  /** Assets of live reels that missed their asset webhooks */
+  unlinkedAssets: { reelId: string; assetId: string }[];
+  /** Live reels whose asset is gone from Mux */
+  missingAssets: { reelId: string; assetId: string }[];
+  /** Whether the run linked assets, deleted orphans and marked reels deleted */
+  fixed: boolean;
+  /** Asset or reel ids that could not be fixed */
+  failed: string[];
+};
+
+/**
+ * Watch time a player reports for one viewing session of a reel
+ */
+export const RecordViewInputSchema = z.object({
+  reelId: z.string(),
+  // Random id the player picks per session, e.g. each time a reel is opened
+  sessionId: z.string().uuid(),
+  // Seconds watched in the session so far, not counting seeks
+  watchedSeconds: z.number().min(0),
+  // Furthest position reached in the video, in seconds
+  position: z.number().min(0),
+});
+
+export type RecordViewInput = z.infer<typeof RecordViewInputSchema>;
+
+/**
+ * Who is watching, for counting each viewer once per window
+ */
+export type ReelViewerIdentity = {
+  /** User id when signed in, otherwise a hash of the client's IP and user agent */
+  key: string;
+  /** Signed in viewer, checked against the reel's visibility */
+  userId?: string;
+};
+
+/**
+ * Performance of one of a creator's reels, rolled up from counted views
+ */
+export type ReelStats = {
+  reelId: string;
+  caption: string | null;
+  publishedAt: Date | null;
+  views: number;
+  uniqueViewers: number;
+  /** Seconds per view */
+  averageWatchSeconds: number;
+  /** Share of views that reached the end, from 0 to 1 */
+  completionRate: number;
+  /** Share of views still watching at the start of each part of the reel */
+  retention: number[];
+};
@@ -0,0 +1,34 @@
+/**
+ * Runs once when the Next.js server starts.
+ * https://nextjs.org/docs/app/guides/instrumentation
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  // Who may subscribe to feature topics, checked by the SSE routes and the
+  // WebSocket server. Namespaces without an authorizer are refused.
+  const { onTopicAuthorize } = await import("@/lib/sse");
+  const { reelPlaybackService } = await import("@/features/reels");
+  onTopicAuthorize("reel", reelPlaybackService.canFollow);
+
+  // Optional WebSocket endpoint for the SSE manager, see `lib/sse/websocket`
+  const { env } = await import("@/env");
+  if (env.WS_PORT) {
+    const { startWebSocketServer } = await import("@/lib/sse/websocket");
+    startWebSocketServer(env.WS_PORT);
+  }
+
+  // Next.js exits on SIGTERM straight away unless told to leave signals to
+  // the app, in which case live connections are drained before exiting
+  if (process.env.NEXT_MANUAL_SIG_HANDLE) {
+    const { shutdown } = await import("@/lib/sse");
+    const { stopWebSocketServer } = await import("@/lib/sse/websocket");
+
+    const onSignal = () => {
+      stopWebSocketServer();
+      void shutdown().finally(() => process.exit(0));
+    };
+    process.once("SIGTERM", onSignal);
+    process.once("SIGINT", onSignal);
+  }
+}
@@ -7,8 +7,23 @@ export interface UserDocument {
   avatar_url: string;
 }
 
+export interface ReelDocument {
+  id: string;
+  creatorId: string;
+  caption: string;
+  hashtags: string[];
+  /** Seconds into the video for the cover shown in results */
+  coverTime: number;
+  /** Transcripts of the reel's captions */
+  transcript: string;
+  visibility: string;
+  /** Milliseconds since the epoch, in the future for scheduled reels */
+  publishedAt: number;
+}
+
 export type IndexDataMap = {
   users: UserDocument;
+  reels: ReelDocument;
 };
 
 export type IndexUids = keyof IndexDataMap;
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  createCounter,
+  createGauge,
+  createHistogram,
+  renderMetrics,
+} from "../index";
+
+describe("metrics registry", () => {
+  it("renders counters per label set", () => {
+    const counter = createCounter("test_events_total", "Test events", [
+      "event",
+    ]);
+    counter.inc({ event: "notification" });
+    counter.inc({ event: "notification" }, 2);
+    counter.inc({ event: 'say "hi"' });
+
+    expect(counter.get({ event: "notification" })).toBe(3);
+    expect(counter.get()).toBe(4);
+    expect(renderMetrics()).toContain(
+      [
+        "# HELP test_events_total Test events",
+        "# TYPE test_events_total counter",
+        'test_events_total{event="notification"} 3',
+        'test_events_total{event="say \\"hi\\""} 1',
+      ].join("\n"),
+    );
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    const histogram = createHistogram(
+      "test_duration_seconds",
+      "Test durations",
+      ["path"],
+      [0.1, 1],
+    );
+    histogram.observe(0.05, { path: "a" });
+    histogram.observe(0.5, { path: "a" });
+    histogram.observe(5, { path: "a" });
+
+    expect(renderMetrics()).toContain(
+      [
+        'test_duration_seconds_bucket{path="a",le="0.1"} 1',
+        'test_duration_seconds_bucket{path="a",le="1"} 2',
+        'test_duration_seconds_bucket{path="a",le="+Inf"} 3',
+        'test_duration_seconds_sum{path="a"} 5.55',
+        'test_duration_seconds_count{path="a"} 3',
+      ].join("\n"),
+    );
+  });
+
+  it("reads collected gauges at render time", () => {
+    let value = 1;
+    createGauge("test_active", "Test gauge", () => value);
+    value = 7;
+
+    expect(renderMetrics()).toContain("test_active 7\n");
+  });
+
+  it("returns the existing metric when a name is registered twice", () => {
+    const first = createCounter("test_reloaded_total", "Reloaded");
+    first.inc();
+
+    expect(createCounter("test_reloaded_total", "Reloaded").get()).toBe(1);
+    expect(() => createGauge("test_reloaded_total", "Reloaded")).toThrow(
+      "already registered as a counter",
+    );
+  });
+});
@@ -0,0 +1,217 @@
+// lib/metrics/index.ts
+/**
+ * Minimal in-process metrics registry exposed in the Prometheus text format.
+ *
+ * Usage:
+ * ```typescript
+ * import { createCounter, renderMetrics } from '@/lib/metrics';
+ *
+ * const requests = createCounter('app_requests_total', 'Requests served', ['route']);
+ * requests.inc({ route: '/home' });
+ *
+ * // In the /api/metrics route
+ * return new Response(renderMetrics());
+ * ```
+ *
+ * Notes:
+ * - Metrics are registered by name; creating a metric that already exists
+ *   returns the existing one, so modules can be reloaded safely.
+ * - Values live in memory per instance. Prometheus scrapes every instance.
+ */
+import type { Counter, Gauge, Histogram, Labels, Metric } from "./types";
+
+export type * from "./types";
+
+// Ensure the registry persists across hot reloads in development
+declare global {
+  var metricsRegistry: Map<string, Metric> | undefined;
+}
+
+const registry =
+  global.metricsRegistry ??
+  (global.metricsRegistry = new Map<string, Metric>());
+
+// Latency buckets in seconds, matching the Prometheus client defaults
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function escapeLabel(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels) {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+// Label sets are keyed by their values in `labelNames` order
+function labelKey(labelNames: string[], labels: Labels = {}) {
+  return JSON.stringify(labelNames.map((name) => labels[name] ?? ""));
+}
+
+function register<T extends Metric>(metric: T): T {
+  const existing = registry.get(metric.name);
+  if (existing) {
+    if (existing.type !== metric.type) {
+      throw new Error(
+        `Metric ${metric.name} is already registered as a ${existing.type}`,
+      );
+    }
+    return existing as T;
+  }
+
+  registry.set(metric.name, metric);
+  return metric;
+}
+
+/**
+ * Create a counter, a value that only goes up
+ *
+ * @param name - Metric name, e.g. `sse_connects_total`
+ * @param help - Description shown in the HELP line
+ * @param labelNames - Labels each sample is split by
+ */
+export function createCounter(
+  name: string,
+  help: string,
+  labelNames: string[] = [],
+): Counter {
+  const values = new Map<string, { labels: Labels; value: number }>();
+
+  return register<Counter>({
+    name,
+    help,
+    type: "counter",
+    inc(labels = {}, value = 1) {
+      const key = labelKey(labelNames, labels);
+      const entry = values.get(key) ?? { labels, value: 0 };
+      entry.value += value;
+      values.set(key, entry);
+    },
+    get(labels) {
+      if (labels) return values.get(labelKey(labelNames, labels))?.value ?? 0;
+
+      let sum = 0;
+      for (const { value } of values.values()) sum += value;
+      return sum;
+    },
+    samples() {
+      if (values.size === 0 && labelNames.length === 0) return [`${name} 0`];
+      return Array.from(values.values()).map(
+        ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`,
+      );
+    },
+  });
+}
+
+/**
+ * Create a gauge, a value that can go up and down
+ *
+ * @param name - Metric name, e.g. `sse_connections_active`
+ * @param help - Description shown in the HELP line
+ * @param collect - Optional callback that reads the current value at scrape time
+ */
+export function createGauge(
+  name: string,
+  help: string,
+  collect?: () => number,
+): Gauge {
+  const values = new Map<string, { labels: Labels; value: number }>();
+
+  return register<Gauge>({
+    name,
+    help,
+    type: "gauge",
+    set(value, labels = {}) {
+      values.set(JSON.stringify(labels), { labels, value });
+    },
+    samples() {
+      if (collect) return [`${name} ${collect()}`];
+      return Array.from(values.values()).map(
+        ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`,
+      );
+    },
+  });
+}
+
+/**
+ * Create a histogram, counting observations into cumulative buckets
+ *
+ * @param name - Metric name, e.g. `trpc_procedure_duration_seconds`
+ * @param help - Description shown in the HELP line
+ * @param labelNames - Labels each sample is split by
+ * @param buckets - Upper bounds of the buckets, ascending
+ */
+export function createHistogram(
+  name: string,
+  help: string,
+  labelNames: string[] = [],
+  buckets: number[] = DEFAULT_BUCKETS,
+): Histogram {
+  const values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  return register<Histogram>({
+    name,
+    help,
+    type: "histogram",
+    observe(value, labels = {}) {
+      const key = labelKey(labelNames, labels);
+      const entry = values.get(key) ?? {
+        labels,
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i]!++;
+      });
+      entry.sum += value;
+      entry.count++;
+      values.set(key, entry);
+    },
+    samples() {
+      const lines: string[] = [];
+
+      for (const { labels, counts, sum, count } of values.values()) {
+        buckets.forEach((bound, i) => {
+          const le = formatLabels({ ...labels, le: String(bound) });
+          lines.push(`${name}_bucket${le} ${counts[i]}`);
+        });
+        lines.push(
+          `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        );
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+      }
+
+      return lines;
+    },
+  });
+}
+
+/**
+ * Render every registered metric in the Prometheus text exposition format
+ *
+ * @returns The scrape body, ending with a newline
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+
+  for (const metric of registry.values()) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.samples());
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,28 @@
+export type MetricType = "counter" | "gauge" | "histogram";
+
+export type Labels = Record<string, string>;
+
+/**
+ * A metric that can render itself in the Prometheus text format
+ */
+export interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: MetricType;
+  /** Sample lines, without the HELP and TYPE headers */
+  samples(): string[];
+}
+
+export interface Counter extends Metric {
+  inc(labels?: Labels, value?: number): void;
+  /** Current value for a label set, or the sum over all label sets */
+  get(labels?: Labels): number;
+}
+
+export interface Gauge extends Metric {
+  set(value: number, labels?: Labels): void;
+}
+
+export interface Histogram extends Metric {
+  observe(value: number, labels?: Labels): void;
+}
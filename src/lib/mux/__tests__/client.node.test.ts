@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { MUX_UPLOAD_TIMEOUT_SECONDS } from "@/config/mux";
+import { muxClient } from "../client";
+
+const { mockCreateUpload } = vi.hoisted(() => ({
+  mockCreateUpload: vi.fn(),
+}));
+
+vi.mock("@mux/mux-node", () => ({
+  default: vi.fn().mockImplementation(() => ({
+    video: { uploads: { create: mockCreateUpload } },
+  })),
+}));
+
+describe("muxClient.createUploadUrl", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateUpload.mockResolvedValue({ id: "upload1", url: "https://up" });
+  });
+
+  it("creates signed assets with the default settings", async () => {
+    await muxClient.createUploadUrl({ userId: "user1" });
+
+    expect(mockCreateUpload).toHaveBeenCalledWith({
+      cors_origin: "*",
+      timeout: MUX_UPLOAD_TIMEOUT_SECONDS,
+      new_asset_settings: {
+        playback_policy: ["signed"],
+        video_quality: "basic",
+        max_resolution_tier: "1080p",
+        normalize_audio: false,
+        inputs: [
+          {
+            generated_subtitles: [
+              { language_code: "en", name: "English (generated)" },
+            ],
+          },
+        ],
+        passthrough: JSON.stringify({ userId: "user1" }),
+      },
+    });
+  });
+
+  it("applies per-upload overrides", async () => {
+    await muxClient.createUploadUrl({
+      userId: "user1",
+      assetSettings: {
+        videoQuality: "plus",
+        captionLanguages: [],
+        mp4Renditions: ["highest", "720p"],
+        normalizeAudio: true,
+      },
+    });
+
+    const [{ new_asset_settings: settings }] = mockCreateUpload.mock
+      .calls[0] as [{ new_asset_settings: Record<string, unknown> }];
+    expect(settings).toMatchObject({
+      video_quality: "plus",
+      normalize_audio: true,
+      static_renditions: [{ resolution: "highest" }, { resolution: "720p" }],
+    });
+    expect(settings).not.toHaveProperty("inputs");
+  });
+});
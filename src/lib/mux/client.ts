@@ -1,11 +1,19 @@
 import Mux from "@mux/mux-node";
 import type {
+  MuxAssetSettings,
+  MuxStoryboard,
   MuxUploadOptions,
   MuxUploadResponse,
   SignedUrlTypes,
 } from "./types";
 import type { HeadersLike } from "@mux/mux-node/core.mjs";
-import { clientOptions } from "@/config/mux";
+import type { AssetOptions } from "@mux/mux-node/resources/video/assets";
+import {
+  clientOptions,
+  MUX_DEFAULT_ASSET_SETTINGS,
+  MUX_RECONCILE_PAGE_SIZE,
+  MUX_UPLOAD_TIMEOUT_SECONDS,
+} from "@/config/mux";
 
 /**
  * Get a Mux client instance configured with the environment variables.
@@ -14,6 +22,49 @@ import { clientOptions } from "@/config/mux";
  */
 const getMuxClient = (): Mux => new Mux(clientOptions);
 
+/**
+ * Map asset settings onto the Mux API, filling in the defaults
+ * @param settings - Settings for this asset
+ * @returns The `new_asset_settings` of an upload, without its passthrough
+ */
+const toAssetOptions = (settings: MuxAssetSettings = {}): AssetOptions => {
+  const {
+    videoQuality,
+    maxResolutionTier,
+    captionLanguages,
+    mp4Renditions,
+    normalizeAudio,
+  } = { ...MUX_DEFAULT_ASSET_SETTINGS, ...settings };
+  const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+  return {
+    playback_policy: ["signed"],
+    video_quality: videoQuality,
+    max_resolution_tier: maxResolutionTier,
+    normalize_audio: normalizeAudio,
+    ...(captionLanguages.length
+      ? {
+          // For direct uploads the first input is the uploaded file itself
+          inputs: [
+            {
+              generated_subtitles: captionLanguages.map((language) => ({
+                language_code: language,
+                name: `${languageNames.of(language) ?? language} (generated)`,
+              })),
+            },
+          ],
+        }
+      : {}),
+    ...(mp4Renditions.length
+      ? {
+          static_renditions: mp4Renditions.map((resolution) => ({
+            resolution,
+          })),
+        }
+      : {}),
+  };
+};
+
 /**
  * A client for interacting with the Mux API
  */
@@ -23,11 +74,13 @@ export const muxClient = {
    *
    * @param userId - The ID of the user uploading the video
    * @param corsOrigin - The CORS origin allowed for this upload
+   * @param assetSettings - Overrides of the default asset settings
    * @returns An object containing the upload ID and URL
    */
   async createUploadUrl({
     userId,
     corsOrigin = "*",
+    assetSettings,
   }: MuxUploadOptions): Promise<MuxUploadResponse> {
     try {
       const mux = getMuxClient();
@@ -35,8 +88,9 @@ export const muxClient = {
       // Create a direct upload URL using the Mux API
       const upload = await mux.video.uploads.create({
         cors_origin: corsOrigin,
+        timeout: MUX_UPLOAD_TIMEOUT_SECONDS,
         new_asset_settings: {
-          playback_policy: ["signed"],
+          ...toAssetOptions(assetSettings),
           passthrough: JSON.stringify({
             userId,
           }),
@@ -55,55 +109,98 @@ export const muxClient = {
   },
 
   /**
-   * Generate a signed playback URL with an expiration
+   * Sign a playback token for a playback ID with an expiration
    *
    * @param playbackId - The Mux playback ID
    * @param expiresInSeconds - How long the token should be valid
    * @param type - Type of token (video, thumbnail, gif)
    * @param params - Parameters to include in the JWT token
+   * @returns The JWT, for players that take tokens rather than URLs
    */
-  async getSignedPlaybackUrl(
+  async signPlaybackToken(
     playbackId: string,
     expiresInSeconds = 3600,
     type: SignedUrlTypes = "video",
     params?: Record<string, string>,
   ): Promise<string> {
-    try {
-      const mux = getMuxClient();
+    const mux = getMuxClient();
 
-      // Create a signed JWT token for the playback
-      const jwt = await mux.jwt.signPlaybackId(playbackId, {
-        expiration: `${Math.floor(Date.now() / 1000) + expiresInSeconds}`,
-        type: [type],
-        // Include any parameters in the token, not the URL
-        ...(params ? { params } : {}),
-      });
+    // Create a signed JWT token for the playback
+    const jwt = await mux.jwt.signPlaybackId(playbackId, {
+      expiration: `${Math.floor(Date.now() / 1000) + expiresInSeconds}`,
+      type: [type],
+      // Include any parameters in the token, not the URL
+      ...(params ? { params } : {}),
+    });
 
-      const jwtToken =
-        typeof jwt === "string"
-          ? jwt
-          : typeof jwt === "object" && jwt && "token" in jwt
-            ? String(jwt.token)
-            : "";
+    const jwtToken =
+      typeof jwt === "string"
+        ? jwt
+        : typeof jwt === "object" && jwt && "token" in jwt
+          ? String(jwt.token)
+          : "";
 
-      // Ensure we have a valid JWT token
-      if (!jwtToken) {
-        throw new Error("Failed to generate JWT token for playback ID");
-      }
+    // Ensure we have a valid JWT token
+    if (!jwtToken) {
+      throw new Error("Failed to generate JWT token for playback ID");
+    }
 
-      // Construct the correct signed URL format
-      let baseUrl: string;
-      if (type === "video") {
-        baseUrl = `https://stream.mux.com/${playbackId}.m3u8`;
-      } else if (type === "thumbnail") {
-        baseUrl = `https://image.mux.com/${playbackId}/thumbnail.jpg`;
-      } else if (type === "gif") {
-        baseUrl = `https://image.mux.com/${playbackId}/animated.gif`;
-      } else {
-        baseUrl = `https://stream.mux.com/${playbackId}.m3u8`;
-      }
+    return jwtToken;
+  },
+
+  /**
+   * Build the URL for a playback ID, signed when given a token
+   *
+   * @param playbackId - The Mux playback ID
+   * @param type - Type of URL (video, thumbnail, gif, storyboard)
+   * @param token - Token from `signPlaybackToken` for the same type
+   * @returns The URL
+   */
+  getPlaybackUrl(
+    playbackId: string,
+    type: SignedUrlTypes = "video",
+    token?: string,
+  ): string {
+    // Construct the correct URL format
+    let baseUrl: string;
+    if (type === "video") {
+      baseUrl = `https://stream.mux.com/${playbackId}.m3u8`;
+    } else if (type === "thumbnail") {
+      baseUrl = `https://image.mux.com/${playbackId}/thumbnail.jpg`;
+    } else if (type === "gif") {
+      baseUrl = `https://image.mux.com/${playbackId}/animated.gif`;
+    } else if (type === "storyboard") {
+      baseUrl = `https://image.mux.com/${playbackId}/storyboard.vtt`;
+    } else {
+      baseUrl = `https://stream.mux.com/${playbackId}.m3u8`;
+    }
+
+    return token ? `${baseUrl}?token=${token}` : baseUrl;
+  },
 
-      return `${baseUrl}?token=${jwtToken}`;
+  /**
+   * Generate a signed playback URL with an expiration
+   *
+   * @param playbackId - The Mux playback ID
+   * @param expiresInSeconds - How long the token should be valid
+   * @param type - Type of token (video, thumbnail, gif)
+   * @param params - Parameters to include in the JWT token
+   */
+  async getSignedPlaybackUrl(
+    playbackId: string,
+    expiresInSeconds = 3600,
+    type: SignedUrlTypes = "video",
+    params?: Record<string, string>,
+  ): Promise<string> {
+    try {
+      const jwtToken = await this.signPlaybackToken(
+        playbackId,
+        expiresInSeconds,
+        type,
+        params,
+      );
+
+      return this.getPlaybackUrl(playbackId, type, jwtToken);
     } catch (error) {
       console.error(`Failed to generate signed URL for ${playbackId}:`, error);
       throw new Error(
@@ -181,6 +278,118 @@ export const muxClient = {
     return url;
   },
 
+  /**
+   * Fetch the storyboard of a playback ID, e.g. to scrub through its frames
+   *
+   * @param playbackId - The Mux playback ID
+   * @param token - Token from `signPlaybackToken` of type storyboard
+   * @returns The storyboard, its sprite URL is unsigned
+   */
+  async getStoryboard(
+    playbackId: string,
+    token: string,
+  ): Promise<MuxStoryboard> {
+    const response = await fetch(
+      `https://image.mux.com/${playbackId}/storyboard.json?token=${token}`,
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch Mux storyboard for ${playbackId}: ${response.status}`,
+      );
+    }
+    return (await response.json()) as MuxStoryboard;
+  },
+
+  /**
+   * Fetch a text track of an asset, e.g. generated captions
+   *
+   * @param playbackId - A signed playback ID of the asset
+   * @param trackId - The ID of the text track
+   * @returns The track as WebVTT
+   */
+  async getTextTrack(playbackId: string, trackId: string): Promise<string> {
+    const token = await this.signPlaybackToken(playbackId, 60);
+    const response = await fetch(
+      `https://stream.mux.com/${playbackId}/text/${trackId}.vtt?token=${token}`,
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch Mux text track ${trackId}: ${response.status}`,
+      );
+    }
+    return response.text();
+  },
+
+  /**
+   * Cancel a direct upload that has not received its file yet
+   *
+   * @param uploadId - The Mux upload ID
+   * @returns true if it was cancelled, false if Mux had no such upload or it was past waiting
+   */
+  async cancelUpload(uploadId: string): Promise<boolean> {
+    try {
+      const mux = getMuxClient();
+      await mux.video.uploads.cancel(uploadId);
+      return true;
+    } catch (error) {
+      if (
+        error instanceof Mux.NotFoundError ||
+        error instanceof Mux.BadRequestError
+      ) {
+        return false;
+      }
+
+      console.error(`Failed to cancel Mux upload ${uploadId}:`, error);
+      throw new Error(
+        error instanceof Error
+          ? `Mux upload cancellation failed: ${error.message}`
+          : "Mux upload cancellation failed",
+      );
+    }
+  },
+
+  /**
+   * Delete an asset and its playback IDs, so signed URLs for it stop working
+   *
+   * @param assetId - The Mux asset ID
+   * @returns true if it was deleted, false if Mux had no such asset
+   */
+  async deleteAsset(assetId: string): Promise<boolean> {
+    try {
+      const mux = getMuxClient();
+      await mux.video.assets.delete(assetId);
+      return true;
+    } catch (error) {
+      if (error instanceof Mux.NotFoundError) return false;
+
+      console.error(`Failed to delete Mux asset ${assetId}:`, error);
+      throw new Error(
+        error instanceof Error
+          ? `Mux asset deletion failed: ${error.message}`
+          : "Mux asset deletion failed",
+      );
+    }
+  },
+
+  /**
+   * List every asset in the environment a page at a time, fetching the
+   * next page as it is iterated
+   *
+   * @example
+   * for await (const assets of muxClient.listAssetPages()) { ... }
+   * @param pageSize - Assets per page
+   * @returns An async iterable of asset pages
+   */
+  async *listAssetPages(pageSize = MUX_RECONCILE_PAGE_SIZE) {
+    const mux = getMuxClient();
+    const first = await mux.video.assets.list({ limit: pageSize });
+    for await (const page of first.iterPages()) {
+      yield page.getPaginatedItems();
+    }
+  },
+
   /**
    * Errors if the Mux webhook signature is invalid
    *
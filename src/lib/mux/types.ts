@@ -1,3 +1,37 @@
+import type { AssetOptions } from "@mux/mux-node/resources/video/assets";
+
+/**
+ * Languages Mux can generate captions in
+ */
+export type MuxCaptionLanguage = NonNullable<
+  NonNullable<
+    NonNullable<AssetOptions["inputs"]>[number]["generated_subtitles"]
+  >[number]["language_code"]
+>;
+
+/**
+ * Resolutions of the static MP4 renditions Mux can create for download
+ */
+export type MuxRenditionResolution = NonNullable<
+  AssetOptions["static_renditions"]
+>[number]["resolution"];
+
+/**
+ * Settings for the asset Mux creates from an upload
+ */
+export type MuxAssetSettings = {
+  /** Encoding quality, billed per tier */
+  videoQuality?: NonNullable<AssetOptions["video_quality"]>;
+  /** Highest resolution Mux stores and streams */
+  maxResolutionTier?: NonNullable<AssetOptions["max_resolution_tier"]>;
+  /** Languages to generate captions in from the audio, none when empty */
+  captionLanguages?: MuxCaptionLanguage[];
+  /** MP4 renditions to create for download, none when empty */
+  mp4Renditions?: MuxRenditionResolution[];
+  /** Normalize the loudness of the audio */
+  normalizeAudio?: boolean;
+};
+
 /**
  * Options for creating a new Mux upload URL
  */
@@ -6,6 +40,8 @@ export type MuxUploadOptions = {
   userId: string;
   /** CORS origin allowed for the upload, defaults to "*" */
   corsOrigin?: string;
+  /** Settings for the new asset, unset ones fall back to `MUX_DEFAULT_ASSET_SETTINGS` */
+  assetSettings?: MuxAssetSettings;
 };
 
 /**
@@ -28,3 +64,17 @@ export type SignedUrlTypes =
   | "storyboard"
   | "stats"
   | "drm_license";
+
+/**
+ * Storyboard of an asset: a sprite of evenly spaced frames,
+ * as served at `storyboard.json`
+ */
+export type MuxStoryboard = {
+  /** Sprite image holding every tile */
+  url: string;
+  tile_width: number;
+  tile_height: number;
+  duration: number;
+  /** Where each frame is in the sprite, by start time in seconds */
+  tiles: { start: number; x: number; y: number }[];
+};
@@ -43,7 +43,23 @@ export async function createUpstashRedisClient(): Promise<RedisClient> {
     get: (key) => upstash.get(key),
     set: (key, value, options) => upstash.set(key, value, options),
     del: (key) => upstash.del(key),
+    expire: (key, seconds) => upstash.expire(key, seconds),
+    incr: (key) => upstash.incr(key),
+    decr: (key) => upstash.decr(key),
+    eval: (script, keys, args) => upstash.eval(script, keys, args),
     publish: (channel, message) => upstash.publish(channel, message),
+    subscribe: async (channel, onMessage) => {
+      // Upstash streams subscriptions over its REST API and deserializes
+      // JSON messages, so normalise them back to raw strings
+      const subscriber = upstash.subscribe<unknown>(channel);
+      subscriber.on("message", ({ message }) =>
+        onMessage(
+          typeof message === "string" ? message : JSON.stringify(message),
+        ),
+      );
+
+      return () => subscriber.unsubscribe();
+    },
     scan: async (cursor, options) => {
       const q = await upstash.scan(cursor, options);
 
@@ -60,6 +76,15 @@ export async function createUpstashRedisClient(): Promise<RedisClient> {
     hdel: (key, field) => upstash.hdel(key, field),
     hgetall: (key) => upstash.hgetall(key),
     hexists: (key, field) => upstash.hexists(key, field),
+    rpush: (key, ...values) => upstash.rpush(key, ...values),
+    ltrim: (key, start, stop) => upstash.ltrim(key, start, stop),
+    lrange: async (key, start, stop) => {
+      // Upstash deserializes JSON list items, keep them as raw strings
+      const items = await upstash.lrange<unknown>(key, start, stop);
+      return items.map((item) =>
+        typeof item === "string" ? item : JSON.stringify(item),
+      );
+    },
   };
 
   return client;
@@ -12,10 +12,28 @@ export interface RedisClient {
     options: ScanCommandOptions,
   ): Promise<{ cursor: string; keys: string[] }>;
   del(key: string): Promise<number>;
+  expire(key: string, seconds: number): Promise<number>;
+  /** Increment a counter, starting from 0 if the key is missing */
+  incr(key: string): Promise<number>;
+  /** Decrement a counter, starting from 0 if the key is missing */
+  decr(key: string): Promise<number>;
+  /** Run a Lua script atomically, with its keys and arguments */
+  eval(
+    script: string,
+    keys: string[],
+    args: (string | number)[],
+  ): Promise<unknown>;
 
-  // Upstash redis does not have a `subscribe` method,
-  // so we don't include it in the interface.
+  // Pub/Sub methods
   publish(channel: string, message: string): Promise<number>;
+  /**
+   * Subscribe to a channel. Resolves with a function that
+   * removes the subscription again.
+   */
+  subscribe(
+    channel: string,
+    onMessage: (message: string) => void,
+  ): Promise<() => Promise<void>>;
 
   // Hashing methods
   hget(key: string, field: string): Promise<string | null>;
@@ -23,4 +41,9 @@ export interface RedisClient {
   hdel(key: string, field: string): Promise<number>;
   hgetall(key: string): Promise<Record<string, string> | null>;
   hexists(key: string, field: string): Promise<number>;
+
+  // List methods
+  rpush(key: string, ...values: string[]): Promise<number>;
+  ltrim(key: string, start: number, stop: number): Promise<string>;
+  lrange(key: string, start: number, stop: number): Promise<string[]>;
 }
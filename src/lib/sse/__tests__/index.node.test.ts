@@ -0,0 +1,404 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import "@/__mocks__/utils/logging.mock";
+
+vi.mock("@/config/sse", async (importOriginal) => ({
+  ...(await importOriginal<typeof sseConfig>()),
+  MAX_CONNECTIONS_PER_CLIENT: 2,
+  MAX_CONNECTIONS_PER_IP: 2,
+}));
+
+import type * as sseConfig from "@/config/sse";
+import type { RedisClient } from "@/lib/redis/types";
+import type { SSEStreamOptions } from "../types";
+import {
+  broadcast,
+  checkConnectionLimit,
+  createMemoryTransport,
+  createRedisTransport,
+  createMemoryReplayStore,
+  createSSEStream,
+  generateClientId,
+  getClientTopics,
+  getConnectionMetrics,
+  getForbiddenTopics,
+  hasClientConnections,
+  isClientOfUser,
+  onTopicAuthorize,
+  publishToTopic,
+  sendEvent,
+  sendToUser,
+  setReplayStore,
+  setTransport,
+  SSE_REDIS_CHANNEL,
+  subscribeToTopics,
+  unsubscribeFromTopics,
+} from "../index";
+
+const decoder = new TextDecoder();
+
+/**
+ * Open a stream and skip the `:ok` and `__connected` frames
+ */
+const connect = async (clientId: string, options: SSEStreamOptions = {}) => {
+  const { stream } = createSSEStream(clientId, undefined, options);
+  const reader = stream.getReader();
+  await reader.read();
+  await reader.read();
+
+  return {
+    next: async () => decoder.decode((await reader.read()).value),
+    close: () => reader.cancel(),
+  };
+};
+
+describe("SSE manager transports", () => {
+  const connections: Array<{ close: () => Promise<void> }> = [];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await Promise.all(connections.splice(0).map((c) => c.close()));
+  });
+
+  it("delivers events published by other instances to local connections", async () => {
+    const transport = createMemoryTransport();
+    await setTransport(transport);
+    const conn = await connect("local-client");
+    connections.push(conn);
+
+    await transport.publish({
+      origin: "another-instance",
+      kind: "client",
+      clientId: "local-client",
+      id: 1,
+      event: "notification",
+      payload: { message: "hi" },
+    });
+
+    expect(await conn.next()).toBe(
+      `id: 1\nevent: notification\ndata: {"message":"hi"}\n\n`,
+    );
+  });
+
+  it("does not deliver its own transport messages twice", async () => {
+    await setTransport(createMemoryTransport());
+    const conn = await connect("own-client");
+    connections.push(conn);
+
+    expect(broadcast("notification", { message: "1" })).toBe(1);
+    sendEvent("own-client", "notification", { message: "2" });
+
+    expect(await conn.next()).toContain(`{"message":"1"}`);
+    expect(await conn.next()).toContain(`{"message":"2"}`);
+  });
+
+  it("returns false when no connection can be reached in memory mode", async () => {
+    await setTransport(createMemoryTransport());
+
+    expect(sendEvent("missing-client", "notification", { message: "hi" })).toBe(
+      false,
+    );
+  });
+
+  it("publishes through Redis so clients on other instances are reached", async () => {
+    const publish = vi.fn().mockResolvedValue(1);
+    const redis = {
+      publish,
+      subscribe: vi.fn().mockResolvedValue(vi.fn()),
+    } as unknown as RedisClient;
+    await setTransport(createRedisTransport(async () => redis));
+
+    const sent = sendEvent("remote-client", "notification", { message: "ok" });
+    await vi.waitFor(() => expect(publish).toHaveBeenCalled());
+
+    expect(sent).toBe(true);
+    const [channel, raw] = publish.mock.calls[0] as [string, string];
+    expect(channel).toBe(SSE_REDIS_CHANNEL);
+    expect(JSON.parse(raw)).toMatchObject({
+      kind: "client",
+      clientId: "remote-client",
+      event: "notification",
+      payload: { message: "ok" },
+    });
+  });
+});
+
+describe("SSE manager replay", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await setTransport(createMemoryTransport());
+    setReplayStore(createMemoryReplayStore());
+  });
+
+  it("tags events with increasing ids", async () => {
+    const conn = await connect("id-client");
+
+    sendEvent("id-client", "notification", { message: "1" });
+    sendEvent("id-client", "notification", { message: "2" });
+    const first = Number(/^id: (\d+)/.exec(await conn.next())?.[1]);
+    const second = Number(/^id: (\d+)/.exec(await conn.next())?.[1]);
+
+    expect(second).toBeGreaterThan(first);
+    await conn.close();
+  });
+
+  it("resends events missed between a disconnect and a reconnect", async () => {
+    const conn = await connect("replay-client");
+    sendEvent("replay-client", "notification", { message: "1" });
+    const lastEventId = Number(/^id: (\d+)/.exec(await conn.next())?.[1]);
+    await conn.close();
+
+    // Sent while the client was offline
+    sendEvent("replay-client", "notification", { message: "2" });
+    sendEvent("replay-client", "notification", { message: "3" });
+
+    const reconnected = await connect("replay-client", { lastEventId });
+    sendEvent("replay-client", "notification", { message: "4" });
+
+    expect(await reconnected.next()).toContain(`{"message":"2"}`);
+    expect(await reconnected.next()).toContain(`{"message":"3"}`);
+    expect(await reconnected.next()).toContain(`{"message":"4"}`);
+    await reconnected.close();
+  });
+
+  it("keeps live events from other instances whose ids are behind the replay", async () => {
+    const transport = createMemoryTransport();
+    await setTransport(transport);
+    const store = createMemoryReplayStore();
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    setReplayStore({
+      ...store,
+      since: async (key, lastEventId) => {
+        await released;
+        return store.since(key, lastEventId);
+      },
+    });
+
+    sendEvent("skewed-client", "notification", { message: "missed" });
+    const conn = await connect("skewed-client", { lastEventId: 0 });
+    // An instance with a slower clock, its id is below the replayed one
+    await transport.publish({
+      origin: "slow-instance",
+      kind: "client",
+      clientId: "skewed-client",
+      id: 1,
+      event: "notification",
+      payload: { message: "live" },
+    });
+    release();
+
+    expect(await conn.next()).toContain(`{"message":"missed"}`);
+    expect(await conn.next()).toContain(`{"message":"live"}`);
+    await conn.close();
+  });
+});
+
+describe("SSE manager users", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await setTransport(createMemoryTransport());
+    setReplayStore(createMemoryReplayStore());
+  });
+
+  it("binds generated client ids to their user", () => {
+    const clientId = generateClientId("user1");
+
+    expect(isClientOfUser(clientId, "user1")).toBe(true);
+    expect(isClientOfUser(clientId, "user")).toBe(false);
+    expect(isClientOfUser("client_user2_1_abc", "user1")).toBe(false);
+  });
+
+  it("sends to every connection of a user", async () => {
+    const tab = await connect(generateClientId("user1"), { userId: "user1" });
+    const phone = await connect(generateClientId("user1"), { userId: "user1" });
+    const other = generateClientId("user2");
+    const stranger = await connect(other, { userId: "user2" });
+
+    expect(sendToUser("user1", "notification", { message: "1" })).toBe(true);
+    sendEvent(other, "notification", { message: "2" });
+
+    expect(await tab.next()).toContain(`{"message":"1"}`);
+    expect(await phone.next()).toContain(`{"message":"1"}`);
+    expect(await stranger.next()).toContain(`{"message":"2"}`);
+    await Promise.all([tab.close(), phone.close(), stranger.close()]);
+  });
+
+  it("returns false for users without connections in memory mode", () => {
+    expect(sendToUser("offline-user", "notification", { message: "hi" })).toBe(
+      false,
+    );
+  });
+});
+
+describe("SSE manager topics", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await setTransport(createMemoryTransport());
+    setReplayStore(createMemoryReplayStore());
+  });
+
+  it("publishes only to subscribers of a topic", async () => {
+    const member = await connect("room-member", { topics: ["room:lobby"] });
+    const outsider = await connect("room-outsider");
+
+    expect(publishToTopic("room:lobby", "notification", { message: "1" })).toBe(
+      true,
+    );
+    sendEvent("room-outsider", "notification", { message: "2" });
+
+    expect(await member.next()).toContain(`{"message":"1"}`);
+    expect(await outsider.next()).toContain(`{"message":"2"}`);
+    expect(getConnectionMetrics().topics).toEqual({ "room:lobby": 1 });
+    await Promise.all([member.close(), outsider.close()]);
+    expect(getConnectionMetrics().topics).toEqual({});
+  });
+
+  it("subscribes and unsubscribes connected clients", async () => {
+    const conn = await connect("topic-client");
+
+    expect(subscribeToTopics("topic-client", ["reel:1", "bad topic"])).toEqual([
+      "reel:1",
+    ]);
+    expect(getClientTopics("topic-client")).toEqual(["reel:1"]);
+
+    unsubscribeFromTopics("topic-client", ["reel:1"]);
+    expect(getClientTopics("topic-client")).toEqual([]);
+    expect(publishToTopic("reel:1", "notification", { message: "ready" })).toBe(
+      false,
+    );
+    await conn.close();
+  });
+
+  it("refuses topics their namespace's authorizer does not allow", async () => {
+    onTopicAuthorize("room", (roomId) => roomId === "lobby");
+    onTopicAuthorize("broken", () => Promise.reject(new Error("down")));
+
+    await expect(
+      getForbiddenTopics("user1", [
+        "room:lobby",
+        "room:private",
+        "user:user1",
+        "user:user2",
+        "unknown:1",
+        "broken:1",
+      ]),
+    ).resolves.toEqual(["room:private", "user:user2", "unknown:1", "broken:1"]);
+  });
+});
+
+describe("SSE manager event registry", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await setTransport(createMemoryTransport());
+    setReplayStore(createMemoryReplayStore());
+  });
+
+  it("drops payloads that do not match the event schema", async () => {
+    const conn = await connect("typed-client");
+    const invalid = { text: "hi" } as unknown as { message: string };
+
+    expect(sendEvent("typed-client", "notification", invalid)).toBe(false);
+    expect(broadcast("notification", invalid)).toBe(0);
+    sendEvent("typed-client", "notification", { message: "valid" });
+
+    expect(await conn.next()).toContain(`{"message":"valid"}`);
+    await conn.close();
+  });
+
+  it("strips keys that are not part of the schema", async () => {
+    const conn = await connect("strip-client");
+    const payload = { message: "hi", secret: "x" } as { message: string };
+
+    sendEvent("strip-client", "notification", payload);
+
+    expect(await conn.next()).toContain(`data: {"message":"hi"}`);
+    await conn.close();
+  });
+});
+
+describe("SSE manager backpressure", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await setTransport(createMemoryTransport());
+    setReplayStore(createMemoryReplayStore());
+  });
+
+  it("tracks connections over the high-water mark until they catch up", async () => {
+    const conn = await connect("lagging-client");
+    const message = "x".repeat(40 * 1024);
+
+    sendEvent("lagging-client", "notification", { message });
+    sendEvent("lagging-client", "notification", { message });
+    expect(getConnectionMetrics().slowConnections).toBe(1);
+
+    await conn.next();
+    await conn.next();
+    expect(getConnectionMetrics().slowConnections).toBe(0);
+    await conn.close();
+  });
+
+  it("evicts connections whose queue keeps growing", async () => {
+    const conn = await connect("stalled-client");
+    const before = getConnectionMetrics().evictedConnections;
+    const message = "x".repeat(256 * 1024);
+
+    for (let i = 0; i < 5; i++) {
+      sendEvent("stalled-client", "notification", { message });
+    }
+
+    expect(getConnectionMetrics().evictedConnections).toBe(before + 1);
+    expect(hasClientConnections("stalled-client")).toBe(false);
+    await expect(conn.next()).rejects.toThrow("slow consumer");
+  });
+});
+
+describe("SSE manager connection limits", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await setTransport(createMemoryTransport());
+    setReplayStore(createMemoryReplayStore());
+  });
+
+  it("closes the oldest connection of a client over its cap", async () => {
+    const oldest = await connect("busy-client");
+    const second = await connect("busy-client");
+    const newest = await connect("busy-client");
+
+    expect(await oldest.next()).toContain("event: __closed");
+    sendEvent("busy-client", "notification", { message: "hi" });
+    expect(await second.next()).toContain(`{"message":"hi"}`);
+    expect(await newest.next()).toContain(`{"message":"hi"}`);
+    await Promise.all([second.close(), newest.close()]);
+  });
+
+  it("keeps a client's other connections open when one is closed", async () => {
+    const tab = await connect("tabbed-client");
+    const other = await connect("tabbed-client");
+
+    await tab.close();
+
+    expect(hasClientConnections("tabbed-client")).toBe(true);
+    sendEvent("tabbed-client", "notification", { message: "still here" });
+    expect(await other.next()).toContain(`{"message":"still here"}`);
+    await other.close();
+    expect(hasClientConnections("tabbed-client")).toBe(false);
+  });
+
+  it("rejects new connections from an address over its cap", async () => {
+    const first = await connect("ip-client-1", { ip: "203.0.113.7" });
+    const second = await connect("ip-client-2", { ip: "203.0.113.7" });
+
+    expect(checkConnectionLimit("203.0.113.7")).toMatchObject({
+      allowed: false,
+      scope: "ip",
+      limit: 2,
+    });
+    expect(checkConnectionLimit("198.51.100.1")).toEqual({ allowed: true });
+    await Promise.all([first.close(), second.close()]);
+    expect(checkConnectionLimit("203.0.113.7")).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+
+import "@/__mocks__/utils/logging.mock";
+
+import { SHUTDOWN_RETRY_MAX_MS, SHUTDOWN_RETRY_MIN_MS } from "@/config/sse";
+import {
+  createMemoryTransport,
+  createSSEStream,
+  isShuttingDown,
+  setTransport,
+  shutdown,
+  totalConnections,
+} from "../index";
+
+const decoder = new TextDecoder();
+
+// Shutdown cannot be undone, so it gets its own test file
+describe("SSE manager shutdown", () => {
+  it("tells clients to reconnect and drains every connection", async () => {
+    await setTransport(createMemoryTransport());
+    const readers = ["drain-1", "drain-2"].map((clientId) =>
+      createSSEStream(clientId).stream.getReader(),
+    );
+    expect(totalConnections()).toBe(2);
+
+    await shutdown({ drainMs: 20 });
+
+    expect(isShuttingDown()).toBe(true);
+    expect(totalConnections()).toBe(0);
+
+    for (const reader of readers) {
+      let text = "";
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        text += decoder.decode(value);
+      }
+
+      const retry = Number(/retry: (\d+)\n/.exec(text)?.[1]);
+      expect(retry).toBeGreaterThanOrEqual(SHUTDOWN_RETRY_MIN_MS);
+      expect(retry).toBeLessThanOrEqual(SHUTDOWN_RETRY_MAX_MS);
+      expect(text).toContain(
+        `event: __reconnect\ndata: {"reason":"server shutting down","retryAfter":${retry}}`,
+      );
+    }
+  });
+});
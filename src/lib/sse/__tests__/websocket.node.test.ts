@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import "@/__mocks__/utils/logging.mock";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+import type { SSEWebSocketFrame } from "../types";
+import {
+  createMemoryReplayStore,
+  createMemoryTransport,
+  getClientTopics,
+  onTopicAuthorize,
+  publishToTopic,
+  sendToUser,
+  setReplayStore,
+  setTransport,
+} from "../index";
+import { attachWebSocket } from "../websocket";
+
+/**
+ * Fake socket recording every frame sent to it
+ */
+const createSocket = () => {
+  const frames: SSEWebSocketFrame[] = [];
+  const socket = {
+    bufferedAmount: 0,
+    send: vi.fn((data: string, cb?: () => void) => {
+      frames.push(JSON.parse(data) as SSEWebSocketFrame);
+      cb?.();
+    }),
+    close: vi.fn(),
+  };
+  return { socket, frames };
+};
+
+describe("SSE manager websocket bridge", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await setTransport(createMemoryTransport());
+    setReplayStore(createMemoryReplayStore());
+    onTopicAuthorize("room", (roomId) => roomId !== "private");
+  });
+
+  it("delivers events sent through the shared API as frames", async () => {
+    const { socket, frames } = createSocket();
+    const connection = attachWebSocket(socket, "ws-client", "Tab", {
+      userId: "ws-user",
+    });
+
+    await vi.waitFor(() => expect(frames[0]?.event).toBe("__connected"));
+    expect(sendToUser("ws-user", "notification", { message: "hi" })).toBe(true);
+
+    await vi.waitFor(() =>
+      expect(frames[1]).toMatchObject({
+        id: expect.any(Number) as number,
+        event: "notification",
+        data: { message: "hi" },
+      }),
+    );
+    connection.close();
+  });
+
+  it("handles subscribe and typing messages from the client", async () => {
+    const { socket, frames } = createSocket();
+    const connection = attachWebSocket(socket, "ws-typist", "Ann", {
+      userId: "ws-user",
+    });
+
+    await connection.receive(
+      JSON.stringify({ type: "subscribe", payload: { topics: ["room:1"] } }),
+    );
+    expect(getClientTopics("ws-typist")).toEqual(["room:1"]);
+
+    await connection.receive(
+      JSON.stringify({
+        type: "typing",
+        payload: { topic: "room:1", isTyping: true },
+      }),
+    );
+
+    await vi.waitFor(() =>
+      expect(frames.find((f) => f.event === "typing")?.data).toEqual({
+        topic: "room:1",
+        userId: "ws-user",
+        name: "Ann",
+        isTyping: true,
+      }),
+    );
+    connection.close();
+  });
+
+  it("refuses subscriptions to topics the user may not read", async () => {
+    const { socket, frames } = createSocket();
+    const connection = attachWebSocket(socket, "ws-snoop", undefined, {
+      userId: "ws-user",
+    });
+
+    await connection.receive(
+      JSON.stringify({
+        type: "subscribe",
+        payload: { topics: ["room:1", "room:private"] },
+      }),
+    );
+
+    expect(getClientTopics("ws-snoop")).toEqual([]);
+    expect(frames.find((f) => f.event === "__error")?.data).toEqual({
+      message: "Failed to handle message",
+      type: "subscribe",
+    });
+    connection.close();
+  });
+
+  it("answers invalid messages with an error frame", async () => {
+    const { socket, frames } = createSocket();
+    const connection = attachWebSocket(socket, "ws-invalid", undefined, {
+      userId: "ws-user",
+    });
+
+    await connection.receive("not json");
+    await connection.receive(JSON.stringify({ type: "shout", payload: {} }));
+    await connection.receive(
+      JSON.stringify({ type: "subscribe", payload: { topics: [] } }),
+    );
+
+    expect(
+      frames.filter((f) => f.event === "__error").map((f) => f.data),
+    ).toEqual([
+      { message: "Message is not valid JSON" },
+      { message: "Unknown message type", type: "shout" },
+      { message: "Invalid message payload", type: "subscribe" },
+    ]);
+    expect(publishToTopic("room:2", "notification", { message: "x" })).toBe(
+      false,
+    );
+    connection.close();
+  });
+
+  it("closes sockets that send too many messages", async () => {
+    const { socket } = createSocket();
+    const connection = attachWebSocket(socket, "ws-spammer", undefined, {
+      userId: "ws-user",
+    });
+    const message = JSON.stringify({
+      type: "unsubscribe",
+      payload: { topics: ["room:1"] },
+    });
+
+    for (let i = 0; i < 61; i++) await connection.receive(message);
+
+    expect(socket.close).toHaveBeenCalledWith(1008, "message rate limit");
+  });
+});
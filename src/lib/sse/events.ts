@@ -0,0 +1,179 @@
+/**
+ * Registry of SSE event names and their payload schemas.
+ *
+ * Shared by the server (`sendEvent`, `broadcast`, ...) and the browser
+ * (`useSSE`). This module must stay free of server-only imports so it
+ * can be bundled for the client; import it as `@/lib/sse/events`.
+ *
+ * To add an event, add its schema to `sseEvents`. Payloads are validated
+ * when sent and again when received.
+ *
+ * Messages WebSocket clients send to the server are registered the same
+ * way in `sseClientMessages`.
+ */
+import { z } from "zod";
+
+/**
+ * Events the application can send to clients
+ */
+export const sseEvents = {
+  notification: z.object({
+    // Inbox notification id, set when the notification was stored
+    id: z.string().optional(),
+    message: z.string(),
+    timestamp: z.number().optional(),
+    from: z.string().optional(),
+  }),
+  "system-alert": z.object({
+    level: z.enum(["info", "warning", "error"]),
+    message: z.string(),
+    timestamp: z.number().optional(),
+  }),
+  typing: z.object({
+    topic: z.string(),
+    userId: z.string(),
+    name: z.string().optional(),
+    isTyping: z.boolean(),
+  }),
+  // Sent to the uploader as Mux processes their reel
+  "reel-status": z.object({
+    uploadId: z.string(),
+    status: z.enum(["processing", "ready", "errored"]),
+    // Set once ready, the token is signed for the uploader's preview
+    playbackId: z.string().optional(),
+    playbackToken: z.string().optional(),
+    errorMessage: z.string().optional(),
+    timestamp: z.number().optional(),
+  }),
+};
+
+/**
+ * Events emitted by the SSE manager itself, never sent by application code
+ */
+export const sseSystemEvents = {
+  __connected: z.object({
+    message: z.string(),
+    ts: z.number(),
+    clientId: z.string(),
+    name: z.string().optional(),
+  }),
+  __heartbeat: z.object({
+    ts: z.number(),
+  }),
+  // Sent before the server closes a connection that should not reconnect
+  __closed: z.object({
+    reason: z.string(),
+  }),
+  // Sent before the server closes connections while shutting down,
+  // the client should reconnect after `retryAfter` milliseconds
+  __reconnect: z.object({
+    reason: z.string(),
+    retryAfter: z.number(),
+  }),
+  // Sent to a WebSocket client whose message was rejected
+  __error: z.object({
+    message: z.string(),
+    type: z.string().optional(),
+  }),
+};
+
+/**
+ * Messages WebSocket clients can send to the server
+ */
+export const sseClientMessages = {
+  subscribe: z.object({
+    topics: z.array(z.string()).min(1),
+  }),
+  unsubscribe: z.object({
+    topics: z.array(z.string()).min(1),
+  }),
+  typing: z.object({
+    topic: z.string(),
+    isTyping: z.boolean(),
+  }),
+};
+
+const allEvents = { ...sseEvents, ...sseSystemEvents };
+
+/** Name of an event the application can send */
+export type SSEEventName = keyof typeof sseEvents;
+
+/** Name of any event a client can receive, including system events */
+export type SSEClientEventName = keyof typeof allEvents;
+
+/** Payload type of an event */
+export type SSEEventPayload<E extends SSEClientEventName> = z.infer<
+  (typeof allEvents)[E]
+>;
+
+/** Name of a message a WebSocket client can send */
+export type SSEClientMessageName = keyof typeof sseClientMessages;
+
+/** Payload type of a client message */
+export type SSEClientMessagePayload<M extends SSEClientMessageName> = z.infer<
+  (typeof sseClientMessages)[M]
+>;
+
+/**
+ * Check whether a name is a registered application event
+ */
+export function isSSEEventName(name: string): name is SSEEventName {
+  return Object.hasOwn(sseEvents, name);
+}
+
+/**
+ * Validate a payload against the schema of an event
+ *
+ * @param eventName - Registered event name
+ * @param payload - Payload to validate, e.g. parsed from an event's `data`
+ * @returns The zod parse result, with unknown keys stripped on success
+ */
+export function parseSSEPayload<E extends SSEClientEventName>(
+  eventName: E,
+  payload: unknown,
+) {
+  return (allEvents[eventName] as z.ZodType<SSEEventPayload<E>>).safeParse(
+    payload,
+  );
+}
+
+/**
+ * Check whether a name is a registered client message
+ */
+export function isSSEClientMessageName(
+  name: string,
+): name is SSEClientMessageName {
+  return Object.hasOwn(sseClientMessages, name);
+}
+
+/**
+ * Validate a client message payload against its schema
+ *
+ * @param type - Registered client message name
+ * @param payload - Payload sent by the client
+ * @returns The zod parse result, with unknown keys stripped on success
+ */
+export function parseSSEClientMessage<M extends SSEClientMessageName>(
+  type: M,
+  payload: unknown,
+) {
+  return (
+    sseClientMessages[type] as z.ZodType<SSEClientMessagePayload<M>>
+  ).safeParse(payload);
+}
+
+/**
+ * Events where only the latest one matters, e.g. progress updates.
+ * Slow consumers get the latest pending one of each once they catch up
+ * instead of every event in between.
+ */
+export const coalescableEvents: ReadonlySet<string> =
+  new Set<SSEClientEventName>(["__heartbeat"]);
+
+/**
+ * Events that only matter while they are live, e.g. typing indicators.
+ * They are not kept in the replay buffer.
+ */
+export const ephemeralEvents: ReadonlySet<string> = new Set<SSEEventName>([
+  "typing",
+]);
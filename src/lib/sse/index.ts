@@ -0,0 +1,1266 @@
+// lib/sse/index.ts
+/**
+ * Centralized SSE Manager for Next.js App Router
+ *
+ * Provides a reusable, abstracted Server-Sent Events layer for real-time notifications.
+ * Manages client connections, event dispatching, and provides clean APIs for backend integration.
+ *
+ * Features:
+ * - Track active client connections per user/session
+ * - Bind connections to an authenticated user and fan out to all of their tabs and devices
+ * - Named topics clients can subscribe to, e.g. reel processing updates or chat rooms
+ * - Send named events with JSON payloads to specific clients or broadcast
+ * - Event names and payloads are type-checked and validated against the registry in `./events`
+ * - Fan out events to clients connected to other instances through a pluggable transport
+ * - Replay events missed between reconnects using the `Last-Event-ID` header
+ * - Optional WebSocket endpoint (`./websocket`) sharing the same client registry,
+ *   so clients can also send messages such as typing indicators
+ * - Handle client connection lifecycle (connect, disconnect, errors)
+ * - Heartbeat mechanism to keep connections alive
+ * - Proper cleanup to avoid resource leaks
+ * - Error handling and logging
+ *
+ * Usage for Backend Integration:
+ * ```typescript
+ * import { sendEvent, broadcast, totalConnections } from '@/lib/sse';
+ *
+ * // Send to specific client
+ * sendEvent('client_123_...', 'notification', { message: 'Hello!' });
+ *
+ * // Send to every connection of a signed in user
+ * sendToUser(session.user.id, 'notification', { message: 'Hello!' });
+ *
+ * // Send to every client subscribed to a topic
+ * publishToTopic('room:lobby', 'notification', { message: 'Hi all' });
+ *
+ * // Broadcast to all clients
+ * broadcast('system-alert', { level: 'warning', message: 'Maintenance in 5 minutes' });
+ *
+ * // Get connection metrics
+ * const activeConnections = totalConnections();
+ * ```
+ *
+ * Notes:
+ * - Connections are held in memory per instance. Events are delivered locally first,
+ *   then published on the transport (`SSE_TRANSPORT`) so every other instance can
+ *   deliver them to its own connections.
+ * - Events sent to a client carry an `id:` increasing per instance and are kept in a
+ *   bounded replay buffer (`REPLAY_BUFFER_SIZE`). Broadcasts are not replayed.
+ * - Topic subscriptions live with the connection; clients resubscribe when they reconnect.
+ * - Routes only subscribe a user to topics their namespace's authorizer allows
+ *   (`onTopicAuthorize`, checked with `getForbiddenTopics`); other namespaces are refused.
+ * - Slow consumers: once a connection's queue passes `SLOW_CONSUMER_HIGH_WATER_MARK`,
+ *   coalescable events are held back (latest per event) and the connection is evicted
+ *   if it stays slow for `SLOW_CONSUMER_GRACE_MS` or its queue reaches `SLOW_CONSUMER_MAX_QUEUE`.
+ * - Connection caps per client, user, IP and instance (see `src/config/sse.ts`). Over the
+ *   client and user caps the oldest connection is closed; routes check `checkConnectionLimit`
+ *   and answer 429 over the IP and global caps.
+ * - WebSocket connections are bridged onto an SSE stream, so every API here reaches them
+ *   the same way. Next.js bundles the WebSocket server separately, which is why the
+ *   instance id, heartbeat and transport subscription are kept on `global`.
+ * - Heartbeat interval: 25 seconds, stopped while there are no connections
+ * - Graceful shutdown: `shutdown()` refuses new connections, tells every client to
+ *   reconnect after a jittered delay (`__reconnect` and the SSE `retry:` field) and
+ *   closes connections one by one over `SHUTDOWN_DRAIN_MS`
+ * - Automatic cleanup of dead connections
+ */
+
+import {
+  CONNECTION_LIMIT_RETRY_AFTER_SECONDS,
+  MAX_CONNECTIONS_PER_CLIENT,
+  MAX_CONNECTIONS_PER_IP,
+  MAX_CONNECTIONS_PER_USER,
+  MAX_TOTAL_CONNECTIONS,
+  SHUTDOWN_DRAIN_MS,
+  SHUTDOWN_RETRY_MAX_MS,
+  SHUTDOWN_RETRY_MIN_MS,
+  SLOW_CONSUMER_GRACE_MS,
+  SLOW_CONSUMER_HIGH_WATER_MARK,
+  SLOW_CONSUMER_MAX_QUEUE,
+} from "@/config/sse";
+import { env } from "@/env";
+import { createGauge } from "@/lib/metrics";
+import { getRedis } from "@/lib/redis";
+import { logger } from "@/utils/logging";
+import {
+  coalescableEvents,
+  ephemeralEvents,
+  parseSSEPayload,
+  type SSEEventName,
+  type SSEEventPayload,
+} from "./events";
+import { sseMetrics } from "./metrics";
+import { createMemoryReplayStore, createRedisReplayStore } from "./replay";
+import {
+  addClientTopics,
+  getClientTopics,
+  getTopicClients,
+  getTopicCounts,
+  isValidTopic,
+  removeClientTopics,
+} from "./topics";
+import { createMemoryTransport, createRedisTransport } from "./transports";
+import type {
+  Client,
+  ConnectionMetrics,
+  SSEConnectionLimitResult,
+  SSEConnectionProtocol,
+  SSEReplayStore,
+  SSEShutdownOptions,
+  SSEStreamOptions,
+  SSETransport,
+  SSETransportMessage,
+} from "./types";
+
+export * from "./events";
+export { onClientMessage, type SSEClientMessageHandler } from "./messages";
+export { sseMetrics } from "./metrics";
+export * from "./replay";
+export {
+  getClientTopics,
+  getForbiddenTopics,
+  isValidTopic,
+  onTopicAuthorize,
+  type SSETopicAuthorizer,
+} from "./topics";
+export * from "./transports";
+export type * from "./types";
+
+// Ensure the clients maps persist across hot reloads in development
+declare global {
+  var sseClients: Map<string, Set<Client>> | undefined;
+  var sseUserClients: Map<string, Set<string>> | undefined;
+  var sseInstanceId: string | undefined;
+  var sseHeartbeatTimer: NodeJS.Timeout | undefined;
+  var sseTransportSubscription: Promise<() => Promise<void>> | undefined;
+  var sseShuttingDown: boolean | undefined;
+}
+
+const clients =
+  global.sseClients ?? (global.sseClients = new Map<string, Set<Client>>());
+// userId -> clientIds with at least one open connection
+const userClients =
+  global.sseUserClients ??
+  (global.sseUserClients = new Map<string, Set<string>>());
+const encoder = new TextEncoder();
+const HEARTBEAT_INTERVAL = 25_000; // 25s
+
+// Identifies this instance so it can skip its own transport messages
+const instanceId =
+  global.sseInstanceId ?? (global.sseInstanceId = crypto.randomUUID());
+
+let transport: SSETransport =
+  env.SSE_TRANSPORT === "redis"
+    ? createRedisTransport(getRedis)
+    : createMemoryTransport();
+
+let replayStore: SSEReplayStore =
+  env.SSE_TRANSPORT === "redis"
+    ? createRedisReplayStore(getRedis)
+    : createMemoryReplayStore();
+
+// Event ids are microsecond timestamps, kept strictly increasing
+let lastEventId = 0;
+
+// Gauges are read when `/api/metrics` is scraped
+createGauge("sse_connections_active", "Open SSE connections", () =>
+  totalConnections(),
+);
+createGauge(
+  "sse_clients_active",
+  "Clients with an open SSE connection",
+  () => clients.size,
+);
+
+/** Where a targeted event is delivered */
+type Target =
+  | { kind: "client"; clientId: string }
+  | { kind: "user"; userId: string }
+  | { kind: "topic"; topic: string };
+
+// Heartbeat: keep connections alive, cleanup dead connections
+function ensureHeartbeat() {
+  if (global.sseHeartbeatTimer || global.sseShuttingDown) return;
+
+  global.sseHeartbeatTimer = setInterval(() => {
+    const now = Date.now();
+    let deadConnections = 0;
+
+    for (const set of clients.values()) {
+      for (const c of Array.from(set)) {
+        // Evict connections that have not caught up within the grace period
+        if (c.slowSince && now - c.slowSince > SLOW_CONSUMER_GRACE_MS) {
+          evictConnection(c, "slow_consumer");
+          continue;
+        }
+
+        // Send heartbeat
+        const msg = formatEvent("__heartbeat", { ts: now });
+        if (!writeToConnection(c, "__heartbeat", msg)) deadConnections++;
+      }
+    }
+
+    if (deadConnections > 0) {
+      sseMetrics.evictions.inc({ reason: "heartbeat" }, deadConnections);
+      logger.info("SSE", "heartbeat cleanup", {
+        deadConnections,
+        activeConnections: totalConnections(),
+      });
+    }
+  }, HEARTBEAT_INTERVAL);
+}
+
+function stopHeartbeat() {
+  clearInterval(global.sseHeartbeatTimer);
+  global.sseHeartbeatTimer = undefined;
+}
+
+function ensureSubscribed() {
+  if (global.sseTransportSubscription) return;
+
+  const subscription = transport.subscribe(handleTransportMessage);
+  global.sseTransportSubscription = subscription;
+  subscription.catch((error) => {
+    logger.error("SSE", "transport subscribe failed", error, {
+      transport: transport.name,
+    });
+    if (global.sseTransportSubscription === subscription) {
+      global.sseTransportSubscription = undefined;
+    }
+  });
+}
+
+/**
+ * Deliver events published by other instances to local connections
+ */
+function handleTransportMessage(message: SSETransportMessage) {
+  if (message.origin === instanceId) return;
+
+  switch (message.kind) {
+    case "client":
+    case "user":
+    case "topic":
+      deliverTo(
+        message,
+        message.event,
+        formatEvent(message.event, message.payload, message.id),
+        message.id,
+        message.origin,
+      );
+      break;
+    case "subscription":
+      applySubscription(message.clientId, message.action, message.topics);
+      break;
+    case "broadcast":
+      deliverToAll(message.event, formatEvent(message.event, message.payload));
+      break;
+  }
+}
+
+/**
+ * Publish an event for other instances to deliver.
+ * Returns true when the transport can reach other instances.
+ */
+function forward(message: SSETransportMessage): boolean {
+  transport.publish(message).catch((error) => {
+    logger.error("SSE", "transport publish failed", error, {
+      transport: transport.name,
+      kind: message.kind,
+    });
+  });
+
+  return transport.distributed;
+}
+
+/**
+ * Replay buffer key for a target. Clients use their own id,
+ * users and topics are buffered under a prefixed key.
+ */
+function replayKey(target: Target): string {
+  switch (target.kind) {
+    case "client":
+      return target.clientId;
+    case "user":
+      return `user:${target.userId}`;
+    case "topic":
+      return `topic:${target.topic}`;
+  }
+}
+
+function nextEventId(): number {
+  lastEventId = Math.max(Date.now() * 1000, lastEventId + 1);
+  return lastEventId;
+}
+
+/**
+ * Validate a payload against the event registry
+ *
+ * @returns The parsed payload, or undefined if it does not match the schema
+ */
+function validatePayload<E extends SSEEventName>(
+  eventName: E,
+  payload: SSEEventPayload<E>,
+): SSEEventPayload<E> | undefined {
+  const result = parseSSEPayload(eventName, payload);
+  if (!result.success) {
+    logger.error("SSE", "invalid event payload", result.error, {
+      event: eventName,
+    });
+    return undefined;
+  }
+  return result.data;
+}
+
+function formatEvent(eventName: string, payload: unknown, id?: number) {
+  const idLine = id === undefined ? "" : `id: ${id}\n`;
+  return `${idLine}event: ${eventName}\ndata: ${JSON.stringify(payload)}\n\n`;
+}
+
+/**
+ * Bytes waiting in a connection's stream queue
+ */
+function queuedBytes(c: Client): number {
+  return SLOW_CONSUMER_HIGH_WATER_MARK - (c.controller.desiredSize ?? 0);
+}
+
+/**
+ * Disconnect a connection whose queue is not draining
+ */
+function evictConnection(c: Client, reason: "slow_consumer" | "queue_limit") {
+  sseMetrics.evictions.inc({ reason });
+  logger.warn("SSE", "evicting slow consumer", {
+    clientId: c.id,
+    reason,
+    queuedBytes: queuedBytes(c),
+  });
+
+  // Erroring the stream discards its queue, closing would keep it
+  try {
+    c.controller.error(new Error("SSE slow consumer evicted"));
+  } catch {}
+  removeClient(c.id, c.controller);
+}
+
+/**
+ * Write a chunk to a single connection, applying backpressure.
+ * Once the queue is over the high-water mark, coalescable events are
+ * held back (latest per event) until the client catches up.
+ *
+ * @returns true if the chunk was written or held back,
+ *          false if the connection failed or was evicted
+ */
+function writeToConnection(c: Client, eventName: string, chunk: string) {
+  const desiredSize = c.controller.desiredSize;
+
+  if (desiredSize !== null && desiredSize <= 0) {
+    c.slowSince ??= Date.now();
+
+    if (coalescableEvents.has(eventName)) {
+      (c.coalesced ??= new Map()).set(eventName, chunk);
+      sseMetrics.coalesced.inc();
+      return true;
+    }
+
+    if (queuedBytes(c) + chunk.length > SLOW_CONSUMER_MAX_QUEUE) {
+      evictConnection(c, "queue_limit");
+      return false;
+    }
+  }
+
+  try {
+    c.controller.enqueue(encoder.encode(chunk));
+    c.lastSeen = Date.now();
+    if ((c.controller.desiredSize ?? 1) <= 0) c.slowSince ??= c.lastSeen;
+    return true;
+  } catch {
+    // Remove failing connection
+    removeClient(c.id, c.controller);
+    return false;
+  }
+}
+
+/**
+ * Called once a slow connection's queue drops below the high-water mark
+ */
+function flushCoalesced(c: Client) {
+  c.slowSince = undefined;
+  if (!c.coalesced) return;
+
+  const chunks = Array.from(c.coalesced);
+  c.coalesced = undefined;
+  for (const [eventName, chunk] of chunks) {
+    if (!writeToConnection(c, eventName, chunk)) return;
+  }
+}
+
+/**
+ * Write a chunk to every local connection of a client.
+ * Connections that are still replaying missed events queue it instead.
+ *
+ * @param origin - Instance that assigned the event id
+ * @returns Number of connections the chunk was written to
+ */
+function deliverToClient(
+  clientId: string,
+  eventName: string,
+  chunk: string,
+  id?: number,
+  origin = instanceId,
+): number {
+  const set = clients.get(clientId);
+  if (!set) return 0;
+
+  let sentCount = 0;
+
+  for (const c of Array.from(set)) {
+    if (c.pending) {
+      c.pending.push({ id, origin, chunk });
+      sentCount++;
+      continue;
+    }
+
+    if (writeToConnection(c, eventName, chunk)) sentCount++;
+  }
+
+  return sentCount;
+}
+
+/**
+ * Write a chunk to every local connection of a target
+ *
+ * @param origin - Instance that assigned the event id
+ * @returns Number of connections the chunk was written to
+ */
+function deliverTo(
+  target: Target,
+  eventName: string,
+  chunk: string,
+  id?: number,
+  origin = instanceId,
+): number {
+  const clientIds =
+    target.kind === "client"
+      ? [target.clientId]
+      : target.kind === "user"
+        ? Array.from(userClients.get(target.userId) ?? [])
+        : getTopicClients(target.topic);
+
+  let sent = 0;
+  for (const clientId of clientIds) {
+    sent += deliverToClient(clientId, eventName, chunk, id, origin);
+  }
+
+  return sent;
+}
+
+/**
+ * Validate a targeted event, deliver it locally, buffer it for replay
+ * and forward it to other instances
+ *
+ * @returns null if the payload failed validation
+ */
+function dispatch<E extends SSEEventName>(
+  target: Target,
+  eventName: E,
+  raw: SSEEventPayload<E>,
+) {
+  const payload = validatePayload(eventName, raw);
+  if (payload === undefined) return null;
+
+  sseMetrics.eventsSent.inc({ event: eventName });
+  const id = nextEventId();
+  const sent = deliverTo(
+    target,
+    eventName,
+    formatEvent(eventName, payload, id),
+    id,
+  );
+  const key = replayKey(target);
+
+  if (!ephemeralEvents.has(eventName)) {
+    replayStore
+      .append(key, { id, origin: instanceId, event: eventName, payload })
+      .catch((error) => {
+        logger.error("SSE", "replay buffer append failed", error, {
+          key,
+          replayStore: replayStore.name,
+        });
+      });
+  }
+
+  const forwarded = forward({
+    ...target,
+    origin: instanceId,
+    id,
+    event: eventName,
+    payload,
+  });
+
+  return { sent, forwarded };
+}
+
+/**
+ * Apply a topic (un)subscription to a client connected to this instance
+ */
+function applySubscription(
+  clientId: string,
+  action: "subscribe" | "unsubscribe",
+  topics: string[],
+) {
+  if (!clients.has(clientId)) return;
+
+  if (action === "subscribe") {
+    addClientTopics(clientId, topics);
+  } else {
+    removeClientTopics(clientId, topics);
+  }
+}
+
+/**
+ * Write a chunk to every local connection
+ *
+ * @returns Number of connections and clients the chunk was written to
+ */
+function deliverToAll(
+  eventName: string,
+  chunk: string,
+): { sent: number; clients: number } {
+  let sent = 0;
+  let totalClients = 0;
+
+  for (const clientId of Array.from(clients.keys())) {
+    totalClients++;
+    sent += deliverToClient(clientId, eventName, chunk);
+  }
+  sseMetrics.broadcastFanout.observe(sent);
+
+  return { sent, clients: totalClients };
+}
+
+function addClient(
+  clientId: string,
+  controller: ReadableStreamDefaultController<Uint8Array>,
+  name?: string,
+  userId?: string,
+  ip?: string,
+  protocol: SSEConnectionProtocol = "sse",
+) {
+  ensureHeartbeat();
+  ensureSubscribed();
+  const now = Date.now();
+  const c: Client = {
+    id: clientId,
+    name,
+    protocol,
+    userId,
+    ip,
+    controller,
+    lastSeen: now,
+    connectedAt: now,
+  };
+
+  if (!clients.has(clientId)) clients.set(clientId, new Set());
+  clients.get(clientId)!.add(c);
+  sseMetrics.connects.inc();
+
+  if (userId) {
+    if (!userClients.has(userId)) userClients.set(userId, new Set());
+    userClients.get(userId)!.add(clientId);
+  }
+
+  logger.info("SSE", "client connected", {
+    clientId,
+    userId,
+    name,
+    protocol,
+    totalConnections: totalConnections(),
+    totalClients: clients.size,
+  });
+
+  return c;
+}
+
+function removeClient(
+  clientId: string,
+  controller?: ReadableStreamDefaultController<Uint8Array>,
+) {
+  const set = clients.get(clientId);
+  if (!set) return;
+
+  if (!controller) {
+    // Remove all connections for this client
+    const connectionCount = set.size;
+    sseMetrics.disconnects.inc({}, connectionCount);
+    set.forEach((c) => {
+      try {
+        c.controller.close();
+      } catch {}
+    });
+    clients.delete(clientId);
+    forgetUserClient(set, clientId);
+    removeClientTopics(clientId);
+    if (clients.size === 0) stopHeartbeat();
+    logger.info("SSE", "client disconnected (all connections)", {
+      clientId,
+      connectionCount,
+    });
+    return;
+  }
+
+  // Remove specific connection
+  for (const c of Array.from(set)) {
+    if (c.controller === controller) {
+      set.delete(c);
+      sseMetrics.disconnects.inc();
+      try {
+        c.controller.close();
+      } catch {}
+      break;
+    }
+  }
+
+  if (set.size === 0) {
+    clients.delete(clientId);
+    forgetUserClient(set, clientId);
+    removeClientTopics(clientId);
+    if (clients.size === 0) stopHeartbeat();
+    logger.info("SSE", "client disconnected (last connection)", { clientId });
+  }
+}
+
+/**
+ * Close the oldest connections of a client and of its user once
+ * they are over their caps, telling them not to reconnect
+ */
+function enforceConnectionLimits(c: Client) {
+  const closeOldest = (
+    connections: Client[],
+    limit: number,
+    reason: string,
+  ) => {
+    const excess = connections
+      .sort((a, b) => a.connectedAt - b.connectedAt)
+      .slice(0, Math.max(0, connections.length - limit));
+
+    for (const old of excess) {
+      writeToConnection(old, "__closed", formatEvent("__closed", { reason }));
+      sseMetrics.evictions.inc({ reason: "connection_limit" });
+      removeClient(old.id, old.controller);
+      logger.warn("SSE", "closed oldest connection", {
+        clientId: old.id,
+        userId: old.userId,
+        reason,
+      });
+    }
+  };
+
+  closeOldest(
+    Array.from(clients.get(c.id) ?? []),
+    MAX_CONNECTIONS_PER_CLIENT,
+    "client connection limit reached",
+  );
+
+  if (c.userId) {
+    const connections = Array.from(userClients.get(c.userId) ?? []).flatMap(
+      (clientId) => Array.from(clients.get(clientId) ?? []),
+    );
+    closeOldest(
+      connections,
+      MAX_CONNECTIONS_PER_USER,
+      "user connection limit reached",
+    );
+  }
+}
+
+/**
+ * Drop a client from its user's index once it has no connections left
+ */
+function forgetUserClient(set: Set<Client>, clientId: string) {
+  const userId = Array.from(set)[0]?.userId;
+  if (!userId) return;
+
+  const ids = userClients.get(userId);
+  ids?.delete(clientId);
+  if (ids?.size === 0) userClients.delete(userId);
+}
+
+/**
+ * Resend events the client missed since `lastEventId`, then flush the
+ * live events that arrived while the replay buffer was being read
+ */
+async function replayMissed(c: Client, lastEventId: number) {
+  let entries: Awaited<ReturnType<SSEReplayStore["since"]>> = [];
+  try {
+    // Events sent to the owning user and topics are buffered under their own keys
+    const targets: Target[] = [
+      { kind: "client", clientId: c.id },
+      ...(c.userId ? [{ kind: "user" as const, userId: c.userId }] : []),
+      ...getClientTopics(c.id).map((topic) => ({
+        kind: "topic" as const,
+        topic,
+      })),
+    ];
+    const buffers = await Promise.all(
+      targets.map((target) =>
+        replayStore.since(replayKey(target), lastEventId),
+      ),
+    );
+    entries = buffers.flat().sort((a, b) => a.id - b.id);
+  } catch (error) {
+    logger.error("SSE", "replay buffer read failed", error, {
+      clientId: c.id,
+      replayStore: replayStore.name,
+    });
+  }
+
+  const pending = c.pending ?? [];
+  c.pending = undefined;
+
+  // Ids come from each instance's clock, so live events are matched against
+  // the replay by instance and id rather than compared to the newest id
+  const replayed = new Set<string>();
+  const chunks = entries.map((entry) => {
+    replayed.add(`${entry.origin}:${entry.id}`);
+    return formatEvent(entry.event, entry.payload, entry.id);
+  });
+
+  // Live events already covered by the replay are skipped
+  for (const { id, origin, chunk } of pending) {
+    if (id === undefined || !replayed.has(`${origin}:${id}`))
+      chunks.push(chunk);
+  }
+
+  try {
+    for (const chunk of chunks) c.controller.enqueue(encoder.encode(chunk));
+  } catch {
+    removeClient(c.id, c.controller);
+    return;
+  }
+
+  if (entries.length > 0) {
+    logger.info("SSE", "replayed missed events", {
+      clientId: c.id,
+      lastEventId,
+      replayed: entries.length,
+    });
+  }
+}
+
+/**
+ * Create an SSE ReadableStream for the route handler to return.
+ * Returns { stream, close } (close removes client).
+ *
+ * @param clientId - Unique identifier for the client
+ * @param name - Optional client name for display purposes
+ * @param options - Reconnect state such as the client's `Last-Event-ID`
+ * @returns Object with stream and close function
+ */
+export function createSSEStream(
+  clientId: string,
+  name?: string,
+  options: SSEStreamOptions = {},
+) {
+  let client: Client | undefined;
+
+  const stream = new ReadableStream<Uint8Array>(
+    {
+      start(controller) {
+        // Add client and track connection
+        client = addClient(
+          clientId,
+          controller,
+          name,
+          options.userId,
+          options.ip,
+          options.protocol,
+        );
+        if (options.topics) addClientTopics(clientId, options.topics);
+        enforceConnectionLimits(client);
+
+        // Send initial connection confirmation
+        controller.enqueue(encoder.encode(`:ok\n\n`));
+
+        // Send connected event
+        const init = formatEvent("__connected", {
+          message: "connected",
+          ts: Date.now(),
+          clientId,
+          name,
+        } satisfies SSEEventPayload<"__connected">);
+        controller.enqueue(encoder.encode(init));
+
+        // Hold live events back until missed ones have been resent
+        if (options.lastEventId !== undefined) {
+          client.pending = [];
+          void replayMissed(client, options.lastEventId);
+        }
+      },
+      pull() {
+        // The queue has room again, deliver anything held back while slow
+        if (client) flushCoalesced(client);
+      },
+      cancel() {
+        // Cleanup this connection only, the client's other tabs stay open
+        if (client) removeClient(clientId, client.controller);
+      },
+    },
+    new ByteLengthQueuingStrategy({
+      highWaterMark: SLOW_CONSUMER_HIGH_WATER_MARK,
+    }),
+  );
+
+  // Helper to remove just this controller (for errors)
+  const close = (controller?: ReadableStreamDefaultController<Uint8Array>) => {
+    removeClient(clientId, controller);
+  };
+
+  return { stream, close };
+}
+
+/**
+ * Send named event to all connections for a given clientId,
+ * on this instance and, through the transport, on every other instance
+ *
+ * @param clientId - Target client identifier
+ * @param eventName - Name of the event to send
+ * @param payload - Payload matching the event's schema in the registry
+ * @returns true if the event was delivered locally or forwarded to other instances,
+ *          false if no connections could be reached or the payload is invalid
+ */
+export function sendEvent<E extends SSEEventName>(
+  clientId: string,
+  eventName: E,
+  payload: SSEEventPayload<E>,
+): boolean {
+  const result = dispatch({ kind: "client", clientId }, eventName, payload);
+  if (!result) return false;
+  const { sent: sentCount, forwarded } = result;
+
+  if (sentCount === 0 && !forwarded) {
+    logger.warn(
+      "SSE",
+      `sendEvent failed - no connections for client ${clientId}, event ${eventName}`,
+    );
+    return false;
+  }
+
+  logger.info(
+    "SSE",
+    `event sent to client ${clientId}, event ${eventName}, sent ${sentCount} local connections, forwarded ${forwarded}`,
+  );
+  return true;
+}
+
+/**
+ * Send named event to every connection of an authenticated user,
+ * across all of their tabs and devices and on every instance
+ *
+ * @param userId - Target user, as in `session.user.id`
+ * @param eventName - Name of the event to send
+ * @param payload - Payload matching the event's schema in the registry
+ * @returns true if the event was delivered locally or forwarded to other instances,
+ *          false if no connections could be reached or the payload is invalid
+ */
+export function sendToUser<E extends SSEEventName>(
+  userId: string,
+  eventName: E,
+  payload: SSEEventPayload<E>,
+): boolean {
+  const result = dispatch({ kind: "user", userId }, eventName, payload);
+  if (!result) return false;
+  const { sent: sentCount, forwarded } = result;
+
+  if (sentCount === 0 && !forwarded) {
+    logger.warn(
+      "SSE",
+      `sendToUser failed - no connections for user ${userId}, event ${eventName}`,
+    );
+    return false;
+  }
+
+  logger.info(
+    "SSE",
+    `event sent to user ${userId}, event ${eventName}, sent ${sentCount} local connections, forwarded ${forwarded}`,
+  );
+  return true;
+}
+
+/**
+ * Send named event to every client subscribed to a topic, on every instance
+ *
+ * @param topic - Topic name, e.g. `reel:abc123`
+ * @param eventName - Name of the event to send
+ * @param payload - Payload matching the event's schema in the registry
+ * @returns true if the event was delivered locally or forwarded to other instances,
+ *          false if no subscribers could be reached or the payload is invalid
+ */
+export function publishToTopic<E extends SSEEventName>(
+  topic: string,
+  eventName: E,
+  payload: SSEEventPayload<E>,
+): boolean {
+  const result = dispatch({ kind: "topic", topic }, eventName, payload);
+  if (!result) return false;
+  const { sent, forwarded } = result;
+
+  if (sent === 0 && !forwarded) {
+    logger.warn(
+      "SSE",
+      `publishToTopic failed - no subscribers for topic ${topic}, event ${eventName}`,
+    );
+    return false;
+  }
+
+  logger.info(
+    "SSE",
+    `event published to topic ${topic}, event ${eventName}, sent ${sent} local connections, forwarded ${forwarded}`,
+  );
+  return true;
+}
+
+/**
+ * Subscribe a client to topics on whichever instance holds its connection
+ *
+ * @param clientId - Client identifier
+ * @param topics - Topics to subscribe to, invalid names are dropped
+ * @returns The valid topics that were requested
+ */
+export function subscribeToTopics(clientId: string, topics: string[]) {
+  const valid = topics.filter(isValidTopic);
+
+  applySubscription(clientId, "subscribe", valid);
+  forward({
+    origin: instanceId,
+    kind: "subscription",
+    clientId,
+    action: "subscribe",
+    topics: valid,
+  });
+
+  return valid;
+}
+
+/**
+ * Unsubscribe a client from topics on whichever instance holds its connection
+ *
+ * @param clientId - Client identifier
+ * @param topics - Topics to unsubscribe from
+ */
+export function unsubscribeFromTopics(clientId: string, topics: string[]) {
+  applySubscription(clientId, "unsubscribe", topics);
+  forward({
+    origin: instanceId,
+    kind: "subscription",
+    clientId,
+    action: "unsubscribe",
+    topics,
+  });
+}
+
+/**
+ * Broadcast event to all connected clients on every instance
+ *
+ * @param eventName - Name of the event to broadcast
+ * @param payload - Payload matching the event's schema in the registry
+ * @returns Number of connections on this instance that received the broadcast
+ */
+export function broadcast<E extends SSEEventName>(
+  eventName: E,
+  raw: SSEEventPayload<E>,
+): number {
+  const payload = validatePayload(eventName, raw);
+  if (payload === undefined) return 0;
+
+  sseMetrics.eventsSent.inc({ event: eventName });
+  const { sent, clients: totalClients } = deliverToAll(
+    eventName,
+    formatEvent(eventName, payload),
+  );
+  forward({ origin: instanceId, kind: "broadcast", event: eventName, payload });
+
+  logger.info(
+    "SSE",
+    `broadcast sent: event ${eventName}, sent ${sent} to ${totalClients} clients, total connections: ${totalConnections()}`,
+  );
+
+  return sent;
+}
+
+/**
+ * Replace the transport used to fan out events between instances.
+ * Mainly useful for tests and custom deployments.
+ *
+ * @param next - The transport to use from now on
+ */
+export async function setTransport(next: SSETransport): Promise<void> {
+  const previous = global.sseTransportSubscription;
+  transport = next;
+  global.sseTransportSubscription = undefined;
+
+  if (previous) {
+    await previous.then((stop) => stop()).catch(() => undefined);
+  }
+
+  if (clients.size > 0) ensureSubscribed();
+}
+
+/**
+ * Replace the store used to replay missed events on reconnect.
+ * Mainly useful for tests and custom deployments.
+ *
+ * @param next - The replay store to use from now on
+ */
+export function setReplayStore(next: SSEReplayStore): void {
+  replayStore = next;
+}
+
+/**
+ * Whether `shutdown` has been called. Routes should refuse new
+ * connections with a 503 once it returns true.
+ */
+export function isShuttingDown(): boolean {
+  return global.sseShuttingDown === true;
+}
+
+/**
+ * Drain this instance before it stops, e.g. on SIGTERM during a deploy.
+ *
+ * Refuses new connections, sends every connection a `__reconnect` event
+ * with a jittered `retry:` hint, then closes them one by one over the
+ * drain window so clients reconnect to other instances gradually.
+ * Finally clears the heartbeat and the transport subscription.
+ *
+ * @param options - Drain window and the reason sent to clients
+ * @returns Resolves once every connection has been closed
+ */
+export async function shutdown({
+  drainMs = SHUTDOWN_DRAIN_MS,
+  reason = "server shutting down",
+}: SSEShutdownOptions = {}): Promise<void> {
+  if (global.sseShuttingDown) return;
+  global.sseShuttingDown = true;
+
+  const connections = Array.from(clients.values()).flatMap((set) =>
+    Array.from(set),
+  );
+  logger.info("SSE", "shutting down", {
+    connections: connections.length,
+    drainMs,
+  });
+
+  for (const c of connections) {
+    const retryAfter = Math.round(
+      SHUTDOWN_RETRY_MIN_MS +
+        Math.random() * (SHUTDOWN_RETRY_MAX_MS - SHUTDOWN_RETRY_MIN_MS),
+    );
+    const chunk =
+      `retry: ${retryAfter}\n` +
+      formatEvent("__reconnect", {
+        reason,
+        retryAfter,
+      } satisfies SSEEventPayload<"__reconnect">);
+    writeToConnection(c, "__reconnect", chunk);
+  }
+
+  // Spread the closes over the drain window
+  const interval = connections.length > 0 ? drainMs / connections.length : 0;
+  for (const c of connections) {
+    removeClient(c.id, c.controller);
+    if (interval > 0) {
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  }
+
+  // Connections opened while draining, should a route not check `isShuttingDown`
+  for (const clientId of Array.from(clients.keys())) removeClient(clientId);
+  stopHeartbeat();
+
+  const subscription = global.sseTransportSubscription;
+  global.sseTransportSubscription = undefined;
+  if (subscription) {
+    await subscription.then((stop) => stop()).catch(() => undefined);
+  }
+
+  logger.info("SSE", "shutdown complete");
+}
+
+/**
+ * Get total number of active connections across all clients
+ *
+ * @returns Total number of active SSE connections
+ */
+export function totalConnections(): number {
+  let total = 0;
+  for (const set of clients.values()) total += set.size;
+  return total;
+}
+
+/**
+ * Get detailed connection metrics
+ *
+ * @returns Object with connection statistics
+ */
+export function getConnectionMetrics(): ConnectionMetrics {
+  let totalConnections = 0;
+  let slowConnections = 0;
+  const totalClients = clients.size;
+
+  for (const set of clients.values()) {
+    totalConnections += set.size;
+    for (const c of set) if (c.slowSince) slowConnections++;
+  }
+
+  const averageConnectionsPerClient =
+    totalClients > 0 ? totalConnections / totalClients : 0;
+
+  return {
+    totalConnections,
+    totalClients,
+    averageConnectionsPerClient:
+      Math.round(averageConnectionsPerClient * 100) / 100,
+    topics: getTopicCounts(),
+    slowConnections,
+    evictedConnections: sseMetrics.evictions.get(),
+    coalescedEvents: sseMetrics.coalesced.get(),
+  };
+}
+
+/**
+ * Check whether a new connection from an address fits within the
+ * per-IP and global caps. Client and user caps are enforced when the
+ * stream opens by closing the oldest connection instead.
+ *
+ * @param ip - Remote address of the request, if known
+ * @returns Whether the connection is allowed, and which cap it hit if not
+ */
+export function checkConnectionLimit(ip?: string): SSEConnectionLimitResult {
+  let total = 0;
+  let fromIp = 0;
+
+  for (const set of clients.values()) {
+    total += set.size;
+    if (ip) for (const c of set) if (c.ip === ip) fromIp++;
+  }
+
+  const rejected = (scope: "ip" | "global", limit: number) => {
+    logger.warn("SSE", "connection rejected", { scope, limit, ip });
+    return {
+      allowed: false as const,
+      scope,
+      limit,
+      retryAfter: CONNECTION_LIMIT_RETRY_AFTER_SECONDS,
+    };
+  };
+
+  if (total >= MAX_TOTAL_CONNECTIONS) {
+    return rejected("global", MAX_TOTAL_CONNECTIONS);
+  }
+  if (ip && fromIp >= MAX_CONNECTIONS_PER_IP) {
+    return rejected("ip", MAX_CONNECTIONS_PER_IP);
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Get list of connected client IDs
+ *
+ * @returns Array of client IDs that have active connections
+ */
+export function getConnectedClients(): string[] {
+  return Array.from(clients.keys());
+}
+
+/**
+ * Check if a specific client has active connections
+ *
+ * @param clientId - Client identifier to check
+ * @returns true if client has active connections
+ */
+export function hasClientConnections(clientId: string): boolean {
+  const set = clients.get(clientId);
+  return set ? set.size > 0 : false;
+}
+
+/**
+ * Generate a unique client ID bound to a user
+ *
+ * @param userId - The authenticated user the client belongs to
+ * @returns Unique client identifier
+ */
+export function generateClientId(userId: string): string {
+  return `client_${userId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Check whether a client ID was generated for the given user
+ *
+ * @param clientId - Client identifier to check
+ * @param userId - The authenticated user
+ * @returns true if the client ID belongs to the user
+ */
+export function isClientOfUser(clientId: string, userId: string): boolean {
+  const prefix = `client_${userId}_`;
+  return (
+    clientId.startsWith(prefix) &&
+    /^\d+_[a-z0-9]+$/.test(clientId.slice(prefix.length))
+  );
+}
+
+/**
+ * Check if a specific user has active connections on this instance
+ *
+ * @param userId - User identifier to check
+ * @returns true if the user has active connections
+ */
+export function hasUserConnections(userId: string): boolean {
+  return (userClients.get(userId)?.size ?? 0) > 0;
+}
+
+/**
+ * Get detailed information about all connected clients
+ *
+ * @returns Array of client information objects
+ */
+export function getClientDetails(): Array<{
+  id: string;
+  name?: string;
+  userId?: string;
+  /** Protocols of the client's open connections */
+  protocols: SSEConnectionProtocol[];
+  connectionCount: number;
+  connectedAt: number;
+  lastSeen: number;
+}> {
+  const details: Array<{
+    id: string;
+    name?: string;
+    userId?: string;
+    protocols: SSEConnectionProtocol[];
+    connectionCount: number;
+    connectedAt: number;
+    lastSeen: number;
+  }> = [];
+
+  for (const [clientId, clientSet] of clients) {
+    if (clientSet.size > 0) {
+      // Get the first client's metadata (all connections for same client should have same name/connectedAt)
+      const firstClient = Array.from(clientSet)[0];
+      if (firstClient) {
+        details.push({
+          id: clientId,
+          name: firstClient.name,
+          userId: firstClient.userId,
+          protocols: Array.from(
+            new Set(Array.from(clientSet).map((c) => c.protocol)),
+          ),
+          connectionCount: clientSet.size,
+          connectedAt: firstClient.connectedAt,
+          lastSeen: Math.max(...Array.from(clientSet).map((c) => c.lastSeen)),
+        });
+      }
+    }
+  }
+
+  return details.sort((a, b) => b.connectedAt - a.connectedAt); // Most recent first
+}
@@ -0,0 +1,92 @@
+import { logger } from "@/utils/logging";
+import {
+  isSSEClientMessageName,
+  parseSSEClientMessage,
+  type SSEClientMessageName,
+  type SSEClientMessagePayload,
+} from "./events";
+import type { SSEClientMessageContext, SSEWebSocketMessage } from "./types";
+
+/**
+ * Handles one type of message sent by WebSocket clients
+ */
+export type SSEClientMessageHandler<M extends SSEClientMessageName> = (
+  payload: SSEClientMessagePayload<M>,
+  context: SSEClientMessageContext,
+) => void | Promise<void>;
+
+type AnyHandler = (
+  payload: unknown,
+  context: SSEClientMessageContext,
+) => void | Promise<void>;
+
+// Ensure the handlers persist across hot reloads in development and are
+// shared with the WebSocket server started from `instrumentation.ts`
+declare global {
+  var sseClientMessageHandlers: Map<string, AnyHandler> | undefined;
+}
+
+const handlers =
+  global.sseClientMessageHandlers ??
+  (global.sseClientMessageHandlers = new Map<string, AnyHandler>());
+
+/**
+ * Register the handler for a client message, replacing any previous one.
+ * The message must be registered in `sseClientMessages`.
+ *
+ * @example
+ * onClientMessage("typing", ({ topic, isTyping }, { userId }) => {
+ *   publishToTopic(topic, "typing", { topic, userId, isTyping });
+ * });
+ */
+export function onClientMessage<M extends SSEClientMessageName>(
+  type: M,
+  handler: SSEClientMessageHandler<M>,
+) {
+  handlers.set(type, handler as AnyHandler);
+}
+
+/**
+ * Validate a raw client message and run its handler
+ *
+ * @param raw - Message text as received on the socket
+ * @param context - The connection the message arrived on
+ * @returns An error to report back to the client, or null if it was handled
+ */
+export async function handleClientMessage(
+  raw: string,
+  context: SSEClientMessageContext,
+): Promise<{ message: string; type?: string } | null> {
+  let message: SSEWebSocketMessage;
+  try {
+    message = JSON.parse(raw) as SSEWebSocketMessage;
+  } catch {
+    return { message: "Message is not valid JSON" };
+  }
+
+  const type = typeof message?.type === "string" ? message.type : undefined;
+  if (!type || !isSSEClientMessageName(type)) {
+    return { message: "Unknown message type", type };
+  }
+
+  const parsed = parseSSEClientMessage(type, message.payload);
+  if (!parsed.success) {
+    return { message: "Invalid message payload", type };
+  }
+
+  const handler = handlers.get(type);
+  if (!handler) {
+    return { message: "Message type is not handled", type };
+  }
+
+  try {
+    await handler(parsed.data, context);
+    return null;
+  } catch (error) {
+    logger.error("SSE", "client message handler failed", error, {
+      type,
+      clientId: context.clientId,
+    });
+    return { message: "Failed to handle message", type };
+  }
+}
@@ -0,0 +1,32 @@
+import { createCounter, createHistogram } from "@/lib/metrics";
+
+// Connections that received a broadcast, per broadcast
+const FANOUT_BUCKETS = [0, 1, 5, 10, 50, 100, 500, 1000, 5000, 10000];
+
+/**
+ * Prometheus metrics recorded by the SSE manager, served by `/api/metrics`
+ */
+export const sseMetrics = {
+  connects: createCounter("sse_connects_total", "SSE connections opened"),
+  disconnects: createCounter("sse_disconnects_total", "SSE connections closed"),
+  evictions: createCounter(
+    "sse_evictions_total",
+    "SSE connections dropped by the server",
+    ["reason"],
+  ),
+  coalesced: createCounter(
+    "sse_coalesced_events_total",
+    "Events held back or replaced for slow consumers",
+  ),
+  eventsSent: createCounter(
+    "sse_events_sent_total",
+    "Events sent through the SSE manager, by event name",
+    ["event"],
+  ),
+  broadcastFanout: createHistogram(
+    "sse_broadcast_fanout",
+    "Local connections reached per broadcast",
+    [],
+    FANOUT_BUCKETS,
+  ),
+};
@@ -0,0 +1,89 @@
+import type { RedisClient } from "@/lib/redis/types";
+import { REPLAY_BUFFER_SIZE, REPLAY_TTL_SECONDS } from "@/config/sse";
+import type { SSEReplayEntry, SSEReplayStore } from "./types";
+
+/**
+ * In-process replay buffer for tests and single-node development.
+ * Keeps the last `size` events per client, dropping buffers that
+ * have not received an event for `ttlSeconds`.
+ *
+ * @returns A replay store backed by an in-memory map
+ */
+export function createMemoryReplayStore({
+  size = REPLAY_BUFFER_SIZE,
+  ttlSeconds = REPLAY_TTL_SECONDS,
+}: { size?: number; ttlSeconds?: number } = {}): SSEReplayStore {
+  const buffers = new Map<
+    string,
+    { entries: SSEReplayEntry[]; expiresAt: number }
+  >();
+
+  const sweep = (now: number) => {
+    for (const [clientId, buffer] of buffers) {
+      if (buffer.expiresAt <= now) buffers.delete(clientId);
+    }
+  };
+
+  return {
+    name: "memory",
+
+    async append(clientId, entry) {
+      const now = Date.now();
+      sweep(now);
+
+      const buffer = buffers.get(clientId) ?? { entries: [], expiresAt: 0 };
+      buffer.entries.push(entry);
+      if (buffer.entries.length > size) {
+        buffer.entries.splice(0, buffer.entries.length - size);
+      }
+      buffer.expiresAt = now + ttlSeconds * 1000;
+      buffers.set(clientId, buffer);
+    },
+
+    async since(clientId, lastEventId) {
+      sweep(Date.now());
+
+      const entries = buffers.get(clientId)?.entries ?? [];
+      return entries.filter((entry) => entry.id > lastEventId);
+    },
+  };
+}
+
+/**
+ * Redis-backed replay buffer shared by every instance, so a client
+ * can reconnect to any instance and still receive missed events.
+ *
+ * @param getClient - Resolves the Redis client, usually `getRedis`
+ * @returns A replay store backed by a capped Redis list per client
+ */
+export function createRedisReplayStore(
+  getClient: () => Promise<RedisClient>,
+  {
+    size = REPLAY_BUFFER_SIZE,
+    ttlSeconds = REPLAY_TTL_SECONDS,
+  }: { size?: number; ttlSeconds?: number } = {},
+): SSEReplayStore {
+  const keyFor = (clientId: string) => `sse:replay:${clientId}`;
+
+  return {
+    name: "redis",
+
+    async append(clientId, entry) {
+      const redis = await getClient();
+      const key = keyFor(clientId);
+
+      await redis.rpush(key, JSON.stringify(entry));
+      await redis.ltrim(key, -size, -1);
+      await redis.expire(key, ttlSeconds);
+    },
+
+    async since(clientId, lastEventId) {
+      const redis = await getClient();
+      const items = await redis.lrange(keyFor(clientId), 0, -1);
+
+      return items
+        .map((item) => JSON.parse(item) as SSEReplayEntry)
+        .filter((entry) => entry.id > lastEventId);
+    },
+  };
+}
@@ -0,0 +1,163 @@
+import { MAX_TOPICS_PER_CLIENT } from "@/config/sse";
+import { logger } from "@/utils/logging";
+
+// Topic names are namespaced with ":" e.g. "reel:abc123" or "room:lobby"
+const TOPIC_PATTERN = /^[a-zA-Z0-9_-]+(:[a-zA-Z0-9_-]+)*$/;
+const MAX_TOPIC_LENGTH = 128;
+
+/**
+ * Decides whether a user may subscribe to the topics of a namespace
+ *
+ * @param id - Topic name after the namespace, e.g. `abc123` for `reel:abc123`
+ * @param userId - The authenticated user subscribing
+ */
+export type SSETopicAuthorizer = (
+  id: string,
+  userId: string,
+) => boolean | Promise<boolean>;
+
+// Ensure the topic maps persist across hot reloads in development, and the
+// authorizers are shared with the WebSocket server started from `instrumentation.ts`
+declare global {
+  var sseTopicClients: Map<string, Set<string>> | undefined;
+  var sseClientTopics: Map<string, Set<string>> | undefined;
+  var sseTopicAuthorizers: Map<string, SSETopicAuthorizer> | undefined;
+}
+
+// topic -> subscribed clientIds
+const topicClients =
+  global.sseTopicClients ??
+  (global.sseTopicClients = new Map<string, Set<string>>());
+// clientId -> subscribed topics
+const clientTopics =
+  global.sseClientTopics ??
+  (global.sseClientTopics = new Map<string, Set<string>>());
+
+// namespace -> who may subscribe, users may always follow their own topic
+const authorizers =
+  global.sseTopicAuthorizers ??
+  (global.sseTopicAuthorizers = new Map<string, SSETopicAuthorizer>([
+    ["user", (id, userId) => id === userId],
+  ]));
+
+/**
+ * Check whether a topic name is well formed
+ *
+ * @param topic - Topic name to check
+ * @returns true if the topic can be subscribed to
+ */
+export function isValidTopic(topic: string): boolean {
+  return topic.length <= MAX_TOPIC_LENGTH && TOPIC_PATTERN.test(topic);
+}
+
+/**
+ * Register who may subscribe to the topics of a namespace, replacing any
+ * previous authorizer. Topics in a namespace without one are refused.
+ *
+ * @example
+ * onTopicAuthorize("room", (roomId, userId) => roomService.isMember(roomId, userId));
+ */
+export function onTopicAuthorize(
+  namespace: string,
+  authorizer: SSETopicAuthorizer,
+) {
+  authorizers.set(namespace, authorizer);
+}
+
+/**
+ * Check topics against the authorizer of their namespace.
+ * Routes call this before subscribing a client and answer 403 if any are returned.
+ *
+ * @param userId - The authenticated user subscribing
+ * @param topics - Topics to check
+ * @returns The topics the user may not subscribe to
+ */
+export async function getForbiddenTopics(
+  userId: string,
+  topics: string[],
+): Promise<string[]> {
+  const allowed = await Promise.all(
+    topics.map(async (topic) => {
+      const separator = topic.indexOf(":");
+      const authorizer =
+        separator > 0 ? authorizers.get(topic.slice(0, separator)) : undefined;
+      if (!authorizer) return false;
+
+      try {
+        return await authorizer(topic.slice(separator + 1), userId);
+      } catch (error) {
+        logger.error("SSE", "topic authorization failed", error, { topic });
+        return false;
+      }
+    }),
+  );
+
+  return topics.filter((_, i) => !allowed[i]);
+}
+
+/**
+ * Subscribe a client to topics, ignoring invalid names and
+ * anything over `MAX_TOPICS_PER_CLIENT`
+ *
+ * @returns The topics the client was newly subscribed to
+ */
+export function addClientTopics(clientId: string, topics: string[]): string[] {
+  const current = clientTopics.get(clientId) ?? new Set<string>();
+  const added: string[] = [];
+
+  for (const topic of topics) {
+    if (current.has(topic) || !isValidTopic(topic)) continue;
+    if (current.size >= MAX_TOPICS_PER_CLIENT) break;
+
+    current.add(topic);
+    if (!topicClients.has(topic)) topicClients.set(topic, new Set());
+    topicClients.get(topic)!.add(clientId);
+    added.push(topic);
+  }
+
+  if (current.size > 0) clientTopics.set(clientId, current);
+  return added;
+}
+
+/**
+ * Unsubscribe a client from topics, or from every topic when none are given
+ */
+export function removeClientTopics(clientId: string, topics?: string[]) {
+  const current = clientTopics.get(clientId);
+  if (!current) return;
+
+  for (const topic of topics ?? Array.from(current)) {
+    current.delete(topic);
+
+    const subscribers = topicClients.get(topic);
+    subscribers?.delete(clientId);
+    if (subscribers?.size === 0) topicClients.delete(topic);
+  }
+
+  if (current.size === 0) clientTopics.delete(clientId);
+}
+
+/**
+ * @returns The clientIds subscribed to a topic
+ */
+export function getTopicClients(topic: string): string[] {
+  return Array.from(topicClients.get(topic) ?? []);
+}
+
+/**
+ * @returns The topics a client is subscribed to
+ */
+export function getClientTopics(clientId: string): string[] {
+  return Array.from(clientTopics.get(clientId) ?? []);
+}
+
+/**
+ * @returns Number of subscribed clients per topic
+ */
+export function getTopicCounts(): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const [topic, subscribers] of topicClients) {
+    counts[topic] = subscribers.size;
+  }
+  return counts;
+}
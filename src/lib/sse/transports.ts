@@ -0,0 +1,69 @@
+import type { RedisClient } from "@/lib/redis/types";
+import { logger } from "@/utils/logging";
+import type { SSETransport, SSETransportMessage } from "./types";
+
+/** Redis channel every instance listens on for SSE fan-out */
+export const SSE_REDIS_CHANNEL = "sse:events";
+
+/**
+ * In-process transport for tests and single-node development.
+ * Messages only reach subscribers within the same process.
+ *
+ * @returns An SSE transport backed by an in-memory handler set
+ */
+export function createMemoryTransport(): SSETransport {
+  const handlers = new Set<(message: SSETransportMessage) => void>();
+
+  return {
+    name: "memory",
+    distributed: false,
+
+    async publish(message) {
+      for (const handler of handlers) handler(message);
+    },
+
+    async subscribe(handler) {
+      handlers.add(handler);
+      return async () => {
+        handlers.delete(handler);
+      };
+    },
+  };
+}
+
+/**
+ * Redis pub/sub transport so events published on one instance
+ * are delivered to clients connected to any instance.
+ *
+ * @param getClient - Resolves the Redis client, usually `getRedis`
+ * @param channel - Redis channel to publish and subscribe on
+ * @returns An SSE transport backed by Redis pub/sub
+ */
+export function createRedisTransport(
+  getClient: () => Promise<RedisClient>,
+  channel = SSE_REDIS_CHANNEL,
+): SSETransport {
+  return {
+    name: "redis",
+    distributed: true,
+
+    async publish(message) {
+      const redis = await getClient();
+      await redis.publish(channel, JSON.stringify(message));
+    },
+
+    async subscribe(handler) {
+      const redis = await getClient();
+
+      return redis.subscribe(channel, (raw) => {
+        try {
+          handler(JSON.parse(raw) as SSETransportMessage);
+        } catch (error) {
+          logger.error("SSE", "failed to parse transport message", error, {
+            channel,
+          });
+        }
+      });
+    },
+  };
+}
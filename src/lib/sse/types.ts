@@ -0,0 +1,218 @@
+/**
+ * How a connection reaches its client
+ */
+export type SSEConnectionProtocol = "sse" | "websocket";
+
+/**
+ * A single open SSE connection for a client
+ */
+export type Client = {
+  id: string;
+  name?: string;
+  protocol: SSEConnectionProtocol;
+  /** Authenticated user that owns this connection */
+  userId?: string;
+  /** Remote address the connection was opened from */
+  ip?: string;
+  controller: ReadableStreamDefaultController<Uint8Array>;
+  lastSeen: number;
+  connectedAt: number;
+  /** Live chunks held back while missed events are being replayed */
+  pending?: Array<{ id?: number; origin: string; chunk: string }>;
+  /** When the connection's queue went over the high-water mark */
+  slowSince?: number;
+  /** Latest chunk per coalescable event, held back while the connection is slow */
+  coalesced?: Map<string, string>;
+};
+
+/**
+ * Options for opening an SSE stream
+ */
+export type SSEStreamOptions = {
+  /** Authenticated user that owns the connection, enables `sendToUser` */
+  userId?: string;
+  /** Last event id the client received, from the `Last-Event-ID` header */
+  lastEventId?: number;
+  /** Topics to subscribe the client to when it connects */
+  topics?: string[];
+  /** Remote address, counted against `MAX_CONNECTIONS_PER_IP` */
+  ip?: string;
+  /** How the client is connected, defaults to `"sse"` */
+  protocol?: SSEConnectionProtocol;
+};
+
+/**
+ * Whether a new connection fits within the IP and global connection caps
+ */
+export type SSEConnectionLimitResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      scope: "ip" | "global";
+      limit: number;
+      /** Seconds the caller should wait before retrying */
+      retryAfter: number;
+    };
+
+/**
+ * Options for `shutdown`
+ */
+export type SSEShutdownOptions = {
+  /** Window over which open connections are closed, defaults to `SHUTDOWN_DRAIN_MS` */
+  drainMs?: number;
+  /** Reason sent to clients with the `__reconnect` event */
+  reason?: string;
+};
+
+/**
+ * Connection statistics for this instance
+ */
+export type ConnectionMetrics = {
+  totalConnections: number;
+  totalClients: number;
+  averageConnectionsPerClient: number;
+  /** Number of subscribed clients per topic */
+  topics: Record<string, number>;
+  /** Connections currently over the high-water mark */
+  slowConnections: number;
+  /** Connections dropped by the server since the instance started, see `sse_evictions_total` */
+  evictedConnections: number;
+  /** Events held back or replaced for slow consumers since the instance started */
+  coalescedEvents: number;
+};
+
+/**
+ * Message exchanged between instances through an SSE transport
+ */
+export type SSETransportMessage =
+  | {
+      /** Instance that published the message */
+      origin: string;
+      kind: "client";
+      clientId: string;
+      /** Event id assigned by the publishing instance */
+      id: number;
+      event: string;
+      payload: unknown;
+    }
+  | {
+      /** Instance that published the message */
+      origin: string;
+      kind: "user";
+      userId: string;
+      /** Event id assigned by the publishing instance */
+      id: number;
+      event: string;
+      payload: unknown;
+    }
+  | {
+      /** Instance that published the message */
+      origin: string;
+      kind: "topic";
+      topic: string;
+      /** Event id assigned by the publishing instance */
+      id: number;
+      event: string;
+      payload: unknown;
+    }
+  | {
+      /** Instance that published the message */
+      origin: string;
+      kind: "subscription";
+      clientId: string;
+      action: "subscribe" | "unsubscribe";
+      topics: string[];
+    }
+  | {
+      /** Instance that published the message */
+      origin: string;
+      kind: "broadcast";
+      event: string;
+      payload: unknown;
+    };
+
+/**
+ * Fan-out transport used by the SSE manager to reach
+ * clients connected to other instances
+ */
+export interface SSETransport {
+  /** Transport name, used in logs */
+  readonly name: string;
+
+  /** Whether published messages can reach other instances */
+  readonly distributed: boolean;
+
+  /** Publish a message to every subscribed instance */
+  publish(message: SSETransportMessage): Promise<void>;
+
+  /**
+   * Receive messages published by any instance.
+   * Resolves with a function that removes the subscription.
+   */
+  subscribe(
+    handler: (message: SSETransportMessage) => void,
+  ): Promise<() => Promise<void>>;
+}
+
+/**
+ * An event kept for replay after a client reconnects
+ */
+export type SSEReplayEntry = {
+  id: number;
+  /** Instance that assigned the id, ids are only ordered per instance */
+  origin: string;
+  event: string;
+  payload: unknown;
+};
+
+/**
+ * Bounded per-client buffer of recent events, used to resend
+ * events missed between an EventSource disconnect and reconnect
+ */
+export interface SSEReplayStore {
+  /** Store name, used in logs */
+  readonly name: string;
+
+  /** Record an event sent to a client */
+  append(clientId: string, entry: SSEReplayEntry): Promise<void>;
+
+  /** Events sent to a client after the given event id, oldest first */
+  since(clientId: string, lastEventId: number): Promise<SSEReplayEntry[]>;
+}
+
+/**
+ * The parts of a WebSocket the bridge in `./websocket` uses,
+ * as implemented by `ws`
+ */
+export interface SSEWebSocket {
+  /** Bytes queued on the socket but not yet sent */
+  readonly bufferedAmount: number;
+  send(data: string, cb?: (error?: Error) => void): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * An event as sent to WebSocket clients, one per message
+ */
+export type SSEWebSocketFrame = {
+  id?: number;
+  event: string;
+  data: unknown;
+};
+
+/**
+ * A message sent by a WebSocket client, see `sseClientMessages`
+ */
+export type SSEWebSocketMessage = {
+  type: string;
+  payload?: unknown;
+};
+
+/**
+ * The connection a client message arrived on
+ */
+export type SSEClientMessageContext = {
+  clientId: string;
+  userId?: string;
+  name?: string;
+};
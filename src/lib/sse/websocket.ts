@@ -0,0 +1,380 @@
+/**
+ * WebSocket endpoint for the SSE manager
+ *
+ * Each socket is bridged onto an SSE stream from `createSSEStream`, so it
+ * shares the client registry, user binding, topics, replay, connection caps
+ * and slow consumer handling with EventSource connections. `sendEvent`,
+ * `sendToUser`, `publishToTopic` and `broadcast` reach it like any other
+ * connection. On top of that, clients can send the messages registered in
+ * `sseClientMessages`, handled by `onClientMessage` handlers.
+ *
+ * Next.js route handlers cannot accept upgrades, so the server listens on
+ * its own port (`WS_PORT`) and is started from `src/instrumentation.ts`.
+ * Import it as `@/lib/sse/websocket`, server side only.
+ *
+ * Protocol:
+ * - Connect to `WS_PATH?clientId=...` with the session cookie, optionally
+ *   with `name`, `topic` (repeatable) and `lastEventId` to replay missed events
+ * - Server to client: `{ id?, event, data }` per message, as in `SSEWebSocketFrame`
+ * - Client to server: `{ type, payload }`, as in `SSEWebSocketMessage`
+ */
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { Duplex } from "node:stream";
+import { WebSocketServer, type RawData } from "ws";
+import { authConfig } from "@/config/auth";
+import {
+  CONNECTION_LIMIT_RETRY_AFTER_SECONDS,
+  WS_HIGH_WATER_MARK,
+  WS_MAX_MESSAGE_BYTES,
+  WS_MAX_MESSAGES_PER_WINDOW,
+  WS_MESSAGE_WINDOW_MS,
+  WS_PATH,
+} from "@/config/sse";
+import { db } from "@/lib/db";
+import { logger } from "@/utils/logging";
+import { getClientIp } from "@/utils/request-utils";
+import type { SSEEventPayload } from "./events";
+import {
+  checkConnectionLimit,
+  createSSEStream,
+  getClientTopics,
+  getForbiddenTopics,
+  isClientOfUser,
+  isShuttingDown,
+  publishToTopic,
+  subscribeToTopics,
+  unsubscribeFromTopics,
+} from "./index";
+import { handleClientMessage, onClientMessage } from "./messages";
+import type {
+  SSEStreamOptions,
+  SSEWebSocket,
+  SSEWebSocketFrame,
+} from "./types";
+
+// Close codes, see RFC 6455 section 7.4
+const CLOSE_NORMAL = 1000;
+const CLOSE_POLICY_VIOLATION = 1008;
+const CLOSE_SERVICE_RESTART = 1012;
+const CLOSE_TRY_AGAIN_LATER = 1013;
+
+declare global {
+  var sseWebSocketServer: Server | undefined;
+}
+
+const decoder = new TextDecoder();
+
+// Only topics the user is allowed to read, as for `POST /api/sse/topics`
+onClientMessage("subscribe", async ({ topics }, { clientId, userId }) => {
+  const forbidden = userId ? await getForbiddenTopics(userId, topics) : topics;
+  if (forbidden.length > 0) {
+    throw new Error(
+      `Client ${clientId} may not subscribe to ${forbidden.join(", ")}`,
+    );
+  }
+
+  subscribeToTopics(clientId, topics);
+});
+
+onClientMessage("unsubscribe", ({ topics }, { clientId }) => {
+  unsubscribeFromTopics(clientId, topics);
+});
+
+// Only clients subscribed to a topic may signal typing in it
+onClientMessage("typing", ({ topic, isTyping }, { clientId, userId, name }) => {
+  if (!userId || !getClientTopics(clientId).includes(topic)) {
+    throw new Error(`Client ${clientId} is not subscribed to ${topic}`);
+  }
+
+  publishToTopic(topic, "typing", { topic, userId, name, isTyping });
+});
+
+/**
+ * Turn an SSE frame written by the manager into a WebSocket frame
+ *
+ * @returns null for comments such as the initial `:ok`
+ */
+function parseFrame(chunk: string): SSEWebSocketFrame | null {
+  let id: number | undefined;
+  let event: string | undefined;
+  let data: string | undefined;
+
+  for (const line of chunk.split("\n")) {
+    if (line.startsWith("id: ")) id = Number(line.slice(4));
+    else if (line.startsWith("event: ")) event = line.slice(7);
+    else if (line.startsWith("data: ")) data = line.slice(6);
+  }
+
+  if (!event || data === undefined) return null;
+  return { id, event, data: JSON.parse(data) as unknown };
+}
+
+/**
+ * Send a message, waiting for the socket to drain once it is over
+ * `WS_HIGH_WATER_MARK` so the SSE stream behind it fills up instead
+ */
+function sendFrame(socket: SSEWebSocket, data: string): Promise<void> {
+  if (socket.bufferedAmount < WS_HIGH_WATER_MARK) {
+    socket.send(data);
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => socket.send(data, () => resolve()));
+}
+
+/**
+ * Connect a WebSocket to the SSE manager
+ *
+ * @param socket - Open socket, as accepted by the `ws` server
+ * @param clientId - Client identifier, already checked against the user
+ * @param name - Optional client name for display purposes
+ * @param options - Same as for `createSSEStream`
+ * @returns `receive` to call with each text message, `close` once the socket closes
+ */
+export function attachWebSocket(
+  socket: SSEWebSocket,
+  clientId: string,
+  name?: string,
+  options: SSEStreamOptions = {},
+) {
+  const { stream } = createSSEStream(clientId, name, {
+    ...options,
+    protocol: "websocket",
+  });
+  const reader = stream.getReader();
+  const context = { clientId, userId: options.userId, name };
+  let closed = false;
+  let windowStart = Date.now();
+  let windowCount = 0;
+
+  const close = (code: number, reason: string) => {
+    if (closed) return;
+    closed = true;
+    socket.close(code, reason);
+    void reader.cancel().catch(() => undefined);
+  };
+
+  const sendError = (error: SSEEventPayload<"__error">) =>
+    sendFrame(socket, JSON.stringify({ event: "__error", data: error }));
+
+  void (async () => {
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        const frame = parseFrame(decoder.decode(value));
+        if (frame) await sendFrame(socket, JSON.stringify(frame));
+      }
+      // The manager closed the stream, e.g. over a connection cap or on shutdown
+      if (isShuttingDown()) close(CLOSE_SERVICE_RESTART, "shutting down");
+      else close(CLOSE_NORMAL, "closed");
+    } catch {
+      // Evicted as a slow consumer, the client reconnects with its last event id
+      close(CLOSE_TRY_AGAIN_LATER, "slow consumer");
+    }
+  })();
+
+  return {
+    receive: async (raw: string) => {
+      if (closed) return;
+
+      const now = Date.now();
+      if (now - windowStart > WS_MESSAGE_WINDOW_MS) {
+        windowStart = now;
+        windowCount = 0;
+      }
+      if (++windowCount > WS_MAX_MESSAGES_PER_WINDOW) {
+        logger.warn("SSE", "closing websocket over message rate limit", {
+          clientId,
+        });
+        close(CLOSE_POLICY_VIOLATION, "message rate limit");
+        return;
+      }
+
+      const error = await handleClientMessage(raw, context);
+      if (error && !closed) await sendError(error);
+    },
+    close: () => {
+      closed = true;
+      void reader.cancel().catch(() => undefined);
+    },
+  };
+}
+
+/**
+ * Read a cookie from a raw `Cookie` header
+ */
+function readCookie(header: string | undefined, name: string) {
+  for (const part of header?.split(";") ?? []) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the signed in user from the NextAuth database session cookie
+ */
+async function authenticate(request: IncomingMessage) {
+  const sessionToken = readCookie(
+    request.headers.cookie,
+    authConfig.sessionCookieName,
+  );
+  if (!sessionToken) return null;
+
+  const session = await db.session.findUnique({
+    where: { sessionToken },
+    select: { userId: true, expires: true },
+  });
+  if (!session || session.expires < new Date()) return null;
+
+  return session.userId;
+}
+
+/**
+ * Browsers send cookies with cross-site WebSocket upgrades, so only
+ * accept pages served from the same host
+ */
+function isSameOrigin(request: IncomingMessage) {
+  const { origin, host } = request.headers;
+  if (!origin || !host) return false;
+
+  try {
+    return new URL(origin).hostname === new URL(`http://${host}`).hostname;
+  } catch {
+    return false;
+  }
+}
+
+function toHeaders(request: IncomingMessage) {
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(request.headers)) {
+    if (value !== undefined) {
+      headers.set(key, Array.isArray(value) ? value.join(", ") : value);
+    }
+  }
+  return headers;
+}
+
+function toText(data: RawData) {
+  return Array.isArray(data)
+    ? Buffer.concat(data).toString("utf8")
+    : Buffer.from(data).toString("utf8");
+}
+
+/**
+ * Authenticate an upgrade request and hand it to the `ws` server
+ */
+async function handleUpgrade(
+  wss: WebSocketServer,
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+) {
+  const reject = (status: string, headers: string[] = []) => {
+    socket.end(
+      [`HTTP/1.1 ${status}`, "Connection: close", ...headers, "", ""].join(
+        "\r\n",
+      ),
+    );
+  };
+
+  try {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (url.pathname !== WS_PATH) return reject("404 Not Found");
+    if (isShuttingDown()) {
+      return reject("503 Service Unavailable", [
+        `Retry-After: ${CONNECTION_LIMIT_RETRY_AFTER_SECONDS}`,
+      ]);
+    }
+    if (!isSameOrigin(request)) return reject("403 Forbidden");
+
+    // Only the signed in owner of a client id may connect with it
+    const userId = await authenticate(request);
+    if (!userId) return reject("401 Unauthorized");
+
+    const clientId = url.searchParams.get("clientId");
+    if (!clientId || !isClientOfUser(clientId, userId)) {
+      return reject("403 Forbidden");
+    }
+
+    const topics = url.searchParams.getAll("topic");
+    if ((await getForbiddenTopics(userId, topics)).length > 0) {
+      return reject("403 Forbidden");
+    }
+
+    const ip = getClientIp(toHeaders(request)) ?? request.socket.remoteAddress;
+    const limit = checkConnectionLimit(ip);
+    if (!limit.allowed) {
+      return reject("429 Too Many Requests", [
+        `Retry-After: ${limit.retryAfter}`,
+      ]);
+    }
+
+    const lastEventId = Number(url.searchParams.get("lastEventId") ?? NaN);
+    const options: SSEStreamOptions = {
+      userId,
+      lastEventId: Number.isSafeInteger(lastEventId) ? lastEventId : undefined,
+      topics,
+      ip,
+    };
+    const name = url.searchParams.get("name") ?? undefined;
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      const connection = attachWebSocket(ws, clientId, name, options);
+
+      ws.on("message", (data, isBinary) => {
+        if (isBinary) {
+          ws.close(CLOSE_POLICY_VIOLATION, "binary messages not supported");
+          return;
+        }
+        void connection.receive(toText(data));
+      });
+      ws.on("close", () => connection.close());
+      ws.on("error", (error) => {
+        logger.error("SSE", "websocket error", error, { clientId });
+      });
+    });
+  } catch (error) {
+    logger.error("SSE", "websocket upgrade failed", error);
+    reject("500 Internal Server Error");
+  }
+}
+
+/**
+ * Start the WebSocket server. Safe to call more than once,
+ * later calls return the running server.
+ *
+ * @param port - Port to listen on, `WS_PORT`
+ * @returns The HTTP server accepting upgrades on `WS_PATH`
+ */
+export function startWebSocketServer(port: number): Server {
+  if (global.sseWebSocketServer) return global.sseWebSocketServer;
+
+  const wss = new WebSocketServer({
+    noServer: true,
+    maxPayload: WS_MAX_MESSAGE_BYTES,
+  });
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { Upgrade: "websocket" }).end();
+  });
+
+  server.on("upgrade", (request: IncomingMessage, socket: Duplex, head) => {
+    void handleUpgrade(wss, request, socket, head);
+  });
+  server.listen(port, () => {
+    logger.info("SSE", "websocket server listening", { port, path: WS_PATH });
+  });
+
+  global.sseWebSocketServer = server;
+  return server;
+}
+
+/**
+ * Stop accepting upgrades. Open sockets are closed by `shutdown`.
+ */
+export function stopWebSocketServer() {
+  global.sseWebSocketServer?.close();
+  global.sseWebSocketServer = undefined;
+}
@@ -10,6 +10,7 @@ import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 import { db } from "@/lib/db";
+import { createHistogram } from "@/lib/metrics";
 import { getSession } from "@/features/auth";
 /**
  * 1. CONTEXT
@@ -75,13 +76,20 @@ export const createCallerFactory = t.createCallerFactory;
  */
 export const createTRPCRouter = t.router;
 
+const procedureDuration = createHistogram(
+  "trpc_procedure_duration_seconds",
+  "tRPC procedure execution time",
+  ["path", "type", "status"],
+);
+
 /**
  * Middleware for timing procedure execution and adding an artificial delay in development.
+ * Durations are also recorded in `trpc_procedure_duration_seconds` for `/api/metrics`.
  *
  * You can remove this if you don't like it, but it can help catch unwanted waterfalls by simulating
  * network latency that would occur in production but not in local development.
  */
-const timingMiddleware = t.middleware(async ({ next, path }) => {
+const timingMiddleware = t.middleware(async ({ next, path, type }) => {
   const start = Date.now();
 
   if (t._config.isDev) {
@@ -94,6 +102,11 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
 
   const end = Date.now();
   console.log(`[TRPC] ${path} took ${end - start}ms to execute`);
+  procedureDuration.observe((end - start) / 1000, {
+    path,
+    type,
+    status: result.ok ? "ok" : "error",
+  });
 
   return result;
 });
@@ -1,5 +1,7 @@
 import { createCallerFactory, createTRPCRouter } from "@/lib/trpc";
 import { searchRouter } from "@/features/search";
+import { notificationsRouter } from "@/features/notifications";
+import { reelsRouter } from "@/features/reels";
 
 /**
  * This is the primary router for your server.
@@ -8,6 +10,8 @@ import { searchRouter } from "@/features/search";
  */
 export const appRouter = createTRPCRouter({
   search: searchRouter,
+  notifications: notificationsRouter,
+  reels: reelsRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,13 @@
+/**
+ * Best-effort remote address of a request, taken from the
+ * proxy headers set by the hosting platform
+ *
+ * @param headers - Incoming request headers
+ * @returns The first address in `x-forwarded-for`, or `x-real-ip`
+ */
+export function getClientIp(headers: Headers): string | undefined {
+  const forwarded = headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  if (forwarded) return forwarded;
+
+  return headers.get("x-real-ip") ?? undefined;
+}